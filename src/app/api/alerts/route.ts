@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AlertSettings } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { validateAlertSettings, AlertSettingsInput } from '@/services/AlertService'
+
+const logger = createLogger('AlertsAPI')
+
+function toResponse(settings: AlertSettings) {
+  return {
+    groupId: settings.groupId,
+    enabled: settings.enabled,
+    threshold: settings.threshold,
+    categories: settings.categories,
+    quietStart: settings.quietStart,
+    quietEnd: settings.quietEnd,
+    maxPerDay: settings.maxPerDay,
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+
+    const settings = await prisma.alertSettings.findMany({
+      where: { userId: user.id },
+      orderBy: { id: 'asc' },
+    })
+
+    return NextResponse.json(settings.map(toResponse))
+  } catch (error) {
+    logger.error('GET /api/alerts error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
+
+// groupId null saves the user-wide settings; a group id saves settings that replace them for that group
+export async function PUT(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const body = (await req.json()) as Partial<AlertSettingsInput> & { groupId?: number | null }
+    const groupId = body.groupId ?? null
+
+    const validationError = validateAlertSettings(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    // Verify the groupId belongs to this user
+    if (groupId !== null) {
+      const group = await prisma.channelGroup.findUnique({ where: { id: groupId } })
+      if (!group || group.userId !== user.id) {
+        return NextResponse.json({ error: 'Group not found' }, { status: 404 })
+      }
+    }
+
+    const data = {
+      enabled: body.enabled!,
+      threshold: body.threshold!,
+      categories: body.categories!,
+      quietStart: body.quietStart ?? null,
+      quietEnd: body.quietEnd ?? null,
+      maxPerDay: body.maxPerDay!,
+    }
+
+    // A null groupId can't back a unique key (Postgres treats NULLs as distinct), so rows are keyed by scope
+    const scopeKey = groupId !== null ? `group:${groupId}` : `user:${user.id}`
+    const settings = await prisma.alertSettings.upsert({
+      where: { userId_scopeKey: { userId: user.id, scopeKey } },
+      create: { ...data, userId: user.id, groupId, scopeKey },
+      update: data,
+    })
+
+    return NextResponse.json(toResponse(settings))
+  } catch (error) {
+    logger.error('PUT /api/alerts error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+// Removing a group's settings makes the group follow the user-wide ones again
+export async function DELETE(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const groupId = parseInt(req.nextUrl.searchParams.get('groupId') ?? '', 10)
+
+    if (isNaN(groupId)) {
+      return NextResponse.json({ error: 'Invalid group id' }, { status: 400 })
+    }
+
+    const deleted = await prisma.alertSettings.deleteMany({ where: { userId: user.id, groupId } })
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Alert settings not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    logger.error('DELETE /api/alerts error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
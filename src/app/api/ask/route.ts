@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { askChannels, DEFAULT_ASK_DAYS, MAX_ASK_DAYS, MAX_QUESTION_LENGTH } from '@/services/AskService'
+import type { AskResponse } from '@/types/api'
+
+const logger = createLogger('AskAPI')
+
+export async function POST(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const body = (await req.json()) as { question?: string; days?: number }
+
+    const question = (body.question ?? '').trim()
+    if (question.length < 3 || question.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json({ error: `Question must be 3-${MAX_QUESTION_LENGTH} characters` }, { status: 400 })
+    }
+    const days = body.days ?? DEFAULT_ASK_DAYS
+    if (!Number.isInteger(days) || days < 1 || days > MAX_ASK_DAYS) {
+      return NextResponse.json({ error: `days must be between 1 and ${MAX_ASK_DAYS}` }, { status: 400 })
+    }
+
+    const result = await askChannels(user.id, question, days)
+    const response: AskResponse = {
+      answer: result.answer,
+      sources: result.sources.map((s) => ({
+        messageId: s.messageId,
+        channelTitle: s.channelTitle,
+        postedAt: s.postedAt.toISOString(),
+        summary: s.summary,
+        link: s.link,
+      })),
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('POST /api/ask error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -1,11 +1,81 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { DigestPeriod } from '@prisma/client'
 import { getBot } from '@/lib/bot'
 import { prisma } from '@/lib/prisma'
 import { createLogger } from '@/lib/logger'
 import { textToAudio } from '@/services/AudioService'
+import { parseFeedbackReply, recordFeedback } from '@/services/FeedbackService'
+import { askChannels, formatAnswerHtml, MAX_QUESTION_LENGTH } from '@/services/AskService'
 
 const logger = createLogger('BotWebhook')
 
+const ANALYTICS_TITLES: Record<DigestPeriod, string> = {
+  DAILY: 'Аналитика дня',
+  WEEKLY: 'Аналитика недели',
+  MONTHLY: 'Аналитика месяца',
+}
+
+async function handleFeedbackReply(chatId: number, telegramUserId: number, votes: Map<number, number>, replyToMessageId?: number): Promise<void> {
+  const bot = getBot()
+  const user = await prisma.user.findUnique({ where: { telegramId: BigInt(telegramUserId) } })
+  if (!user) return
+
+  // A reply to a digest rates that digest; a plain message rates the latest one
+  const digest = await prisma.digest.findFirst({
+    where: {
+      userId: user.id,
+      status: 'SENT',
+      sentMessageIds: replyToMessageId !== undefined ? { has: replyToMessageId } : { isEmpty: false },
+    },
+    orderBy: { sentAt: 'desc' },
+  })
+
+  if (!digest) {
+    await bot.sendMessage(chatId, '❌ Не нашёл дайджест для оценки. Ответьте на сообщение с дайджестом.')
+    return
+  }
+
+  const result = await recordFeedback(digest.id, votes)
+  if (result.up + result.down === 0) {
+    await bot.sendMessage(chatId, '❌ В дайджесте нет новостей с такими номерами.')
+    return
+  }
+
+  const lines = [`✅ Спасибо! Учтено: 👍 ${result.up} · 👎 ${result.down}`]
+  if (result.unknownRanks.length > 0) {
+    lines.push(`Номера не найдены: ${result.unknownRanks.join(', ')}`)
+  }
+  await bot.sendMessage(chatId, lines.join('\n'))
+}
+
+async function handleAsk(chatId: number, telegramUserId: number, question: string): Promise<void> {
+  const bot = getBot()
+  const user = await prisma.user.findUnique({ where: { telegramId: BigInt(telegramUserId) } })
+  if (!user) {
+    await bot.sendMessage(chatId, '❌ Сначала откройте приложение и добавьте каналы: /start')
+    return
+  }
+  if (question.length < 3) {
+    await bot.sendMessage(chatId, '❓ Задайте вопрос после команды, например:\n/ask что писали о новом налоговом законе?')
+    return
+  }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    await bot.sendMessage(chatId, `❌ Слишком длинный вопрос: не больше ${MAX_QUESTION_LENGTH} символов.`)
+    return
+  }
+
+  const processingMsg = await bot.sendMessage(chatId, '🔎 Ищу в ваших каналах...')
+  try {
+    const result = await askChannels(user.id, question)
+    await bot.sendMessage(chatId, formatAnswerHtml(result, user.timezone), { parse_mode: 'HTML', disable_web_page_preview: true })
+  } catch (err) {
+    logger.error('Failed to answer question', { userId: user.id, error: err })
+    await bot.sendMessage(chatId, '❌ Не удалось ответить на вопрос. Попробуйте позже.')
+  } finally {
+    await bot.deleteMessage(chatId, processingMsg.message_id).catch(() => {})
+  }
+}
+
 export async function POST(req: NextRequest) {
   try {
     const update = await req.json()
@@ -42,9 +112,16 @@ export async function POST(req: NextRequest) {
           })
         }
       } else if (text === '/help') {
-        await bot.sendMessage(chatId, '📖 <b>Как пользоваться:</b>\n\n1. Откройте Mini App\n2. Добавьте каналы для мониторинга\n3. Настройте время дайджеста\n4. Получайте ежедневные сводки!\n\n/start — главное меню', {
+        await bot.sendMessage(chatId, '📖 <b>Как пользоваться:</b>\n\n1. Откройте Mini App\n2. Добавьте каналы для мониторинга\n3. Настройте время дайджеста\n4. Получайте ежедневные сводки!\n5. Оценивайте новости ответом на дайджест: +3 -7\n\n/ask вопрос — ответ по вашим каналам за неделю\n/start — главное меню', {
           parse_mode: 'HTML',
         })
+      } else if (userId && (text === '/ask' || text.startsWith('/ask ') || text.startsWith('/ask@'))) {
+        await handleAsk(chatId, userId, text.replace(/^\/ask(@\S+)?/, '').trim())
+      } else if (userId) {
+        const votes = parseFeedbackReply(text)
+        if (votes) {
+          await handleFeedbackReply(chatId, userId, votes, msg.reply_to_message?.message_id)
+        }
       }
     }
 
@@ -72,7 +149,7 @@ export async function POST(req: NextRequest) {
           await bot.sendAudio(
             chatId,
             audioBuffer,
-            { title: digest.groupName ? `Аналитика: ${digest.groupName}` : 'Аналитика дня' },
+            { title: digest.groupName ? `${ANALYTICS_TITLES[digest.period]}: ${digest.groupName}` : ANALYTICS_TITLES[digest.period] },
             { filename: 'analytics.wav', contentType: 'audio/wav' },
           )
         } catch (err) {
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { buildMessageLink } from '@/lib/links'
+import { GLOBAL_FILTER_CONFIG, filterConfigFor, filterReasonFor } from '@/services/ContentFilter'
+import type { FilteredMessagesResponse } from '@/types/api'
+
+const logger = createLogger('ChannelsAPI')
+const FILTERED_WINDOW_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+const FILTERED_LIMIT = 100
+const FILTERED_SCAN_LIMIT = 1000
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const channelId = parseInt(params.id, 10)
+
+    if (isNaN(channelId)) {
+      return NextResponse.json({ error: 'Invalid channel id' }, { status: 400 })
+    }
+
+    const userChannel = await prisma.userChannel.findUnique({
+      where: { userId_channelId: { userId: user.id, channelId } },
+      include: { channel: true },
+    })
+
+    if (!userChannel) {
+      return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
+    }
+
+    // The user's own settings decide what counts as filtered for them, so recent posts are re-checked here
+    const recent = await prisma.message.findMany({
+      where: {
+        channelId,
+        deletedAt: null,
+        postedAt: { gte: new Date(Date.now() - FILTERED_WINDOW_MS) },
+        filterRescues: { none: { userId: user.id } },
+      },
+      orderBy: { postedAt: 'desc' },
+      take: FILTERED_SCAN_LIMIT,
+    })
+    const config = filterConfigFor(userChannel)
+    const messages = recent
+      .map((m) => ({ message: m, reason: filterReasonFor(m, config) }))
+      .filter(({ reason }) => reason !== null)
+      .slice(0, FILTERED_LIMIT)
+
+    const { channel } = userChannel
+    const response: FilteredMessagesResponse = {
+      settings: {
+        minLength: userChannel.filterMinLength,
+        adWordThreshold: userChannel.filterAdWordThreshold,
+        emojiRatio: userChannel.filterEmojiRatio,
+        exemptions: userChannel.filterExemptions,
+        defaults: GLOBAL_FILTER_CONFIG,
+      },
+      messages: messages.map(({ message: m, reason }) => ({
+        messageId: m.id,
+        text: m.text,
+        postedAt: m.postedAt.toISOString(),
+        reason,
+        link: buildMessageLink(channel, m.telegramMsgId),
+      })),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('GET /api/channels/:id/filtered error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
+
+// Rescues a wrongly filtered post for this user only; once live, the worker's scoring sweep picks it up
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const channelId = parseInt(params.id, 10)
+
+    if (isNaN(channelId)) {
+      return NextResponse.json({ error: 'Invalid channel id' }, { status: 400 })
+    }
+
+    const { messageId } = (await req.json()) as { messageId: number }
+    if (!Number.isInteger(messageId)) {
+      return NextResponse.json({ error: 'messageId is required' }, { status: 400 })
+    }
+
+    const subscribed = await prisma.userChannel.findUnique({
+      where: { userId_channelId: { userId: user.id, channelId } },
+    })
+    if (!subscribed) {
+      return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
+    }
+
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, channelId, deletedAt: null },
+      select: { id: true, isFiltered: true },
+    })
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 })
+    }
+
+    await prisma.filterRescue.upsert({
+      where: { userId_messageId: { userId: user.id, messageId } },
+      create: { userId: user.id, messageId },
+      update: {},
+    })
+
+    // Other subscribers still apply their own filter settings to it at digest time
+    if (message.isFiltered) {
+      await prisma.message.update({ where: { id: messageId }, data: { isFiltered: false } })
+    }
+
+    logger.info('Filtered message rescued', { userId: user.id, channelId, messageId })
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    logger.error('POST /api/channels/:id/filtered error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -1,9 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server'
+import type { FilterReason } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { getAuthenticatedUser } from '@/lib/auth'
 import { createLogger } from '@/lib/logger'
+import { FILTER_REASONS, filterConfigFor, filterReasonFor } from '@/services/ContentFilter'
 
 const logger = createLogger('ChannelsAPI')
+const AD_STATS_WINDOW_MS = 30 * 24 * 60 * 60 * 1000 // 30 days
+const REFILTER_WINDOW_MS = 35 * 24 * 60 * 60 * 1000 // the longest digest lookback
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const channelId = parseInt(params.id, 10)
+
+    if (isNaN(channelId)) {
+      return NextResponse.json({ error: 'Invalid channel id' }, { status: 400 })
+    }
+
+    const userChannel = await prisma.userChannel.findUnique({
+      where: { userId_channelId: { userId: user.id, channelId } },
+      include: { channel: { include: { forumTopics: { orderBy: { topicId: 'asc' } } } } },
+    })
+
+    if (!userChannel) {
+      return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
+    }
+
+    // Ads counted from the scorer's flag, the keyword filter and learned promo templates alike
+    const recent = { channelId, deletedAt: null, postedAt: { gte: new Date(Date.now() - AD_STATS_WINDOW_MS) } }
+    const [total, ads, templates] = await Promise.all([
+      prisma.message.count({ where: recent }),
+      prisma.message.count({
+        where: { ...recent, OR: [{ isAd: true }, { isFiltered: true, filterReason: { in: ['AD_KEYWORDS', 'AD_TEMPLATE'] } }] },
+      }),
+      prisma.adTemplate.count({ where: { channelId } }),
+    ])
+
+    return NextResponse.json({
+      id: userChannel.channel.id,
+      userChannelId: userChannel.id,
+      telegramChannelId: userChannel.channel.telegramChannelId.toString(),
+      username: userChannel.channel.username,
+      title: userChannel.channel.title,
+      addedAt: userChannel.addedAt,
+      groupId: userChannel.groupId,
+      kind: userChannel.channel.kind,
+      topicIds: userChannel.topicIds,
+      weight: userChannel.weight,
+      minImportanceScore: userChannel.minImportanceScore,
+      includeAll: userChannel.includeAll,
+      snoozedUntil: userChannel.snoozedUntil,
+      topics: userChannel.channel.forumTopics.map((t) => ({ topicId: t.topicId, title: t.title })),
+      adStats: { total, ads, templates },
+    })
+  } catch (error) {
+    logger.error('GET /api/channels/:id error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
 
 export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
   const initData = req.headers.get('x-telegram-init-data')
@@ -17,7 +75,18 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
       return NextResponse.json({ error: 'Invalid channel id' }, { status: 400 })
     }
 
-    const body = (await req.json()) as { groupId: number | null }
+    const body = (await req.json()) as {
+      groupId?: number | null
+      topicIds?: number[]
+      weight?: number
+      minImportanceScore?: number | null
+      includeAll?: boolean
+      snoozedUntil?: string | null
+      filterExemptions?: FilterReason[]
+      filterMinLength?: number | null
+      filterAdWordThreshold?: number | null
+      filterEmojiRatio?: number | null
+    }
 
     // Verify the groupId belongs to this user
     if (body.groupId !== null && body.groupId !== undefined) {
@@ -27,15 +96,95 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
       }
     }
 
+    if (body.topicIds !== undefined) {
+      if (!Array.isArray(body.topicIds) || body.topicIds.some((id) => !Number.isInteger(id))) {
+        return NextResponse.json({ error: 'Invalid topicIds' }, { status: 400 })
+      }
+      const known = await prisma.forumTopic.count({
+        where: { channelId, topicId: { in: body.topicIds } },
+      })
+      if (known !== new Set(body.topicIds).size) {
+        return NextResponse.json({ error: 'Unknown topic' }, { status: 400 })
+      }
+    }
+
+    if (body.weight !== undefined && (typeof body.weight !== 'number' || body.weight < 0.1 || body.weight > 5)) {
+      return NextResponse.json({ error: 'weight must be between 0.1 and 5' }, { status: 400 })
+    }
+
+    if (
+      body.minImportanceScore !== undefined &&
+      body.minImportanceScore !== null &&
+      (typeof body.minImportanceScore !== 'number' || body.minImportanceScore < 1 || body.minImportanceScore > 10)
+    ) {
+      return NextResponse.json({ error: 'minImportanceScore must be between 1 and 10' }, { status: 400 })
+    }
+
+    if (body.includeAll !== undefined && typeof body.includeAll !== 'boolean') {
+      return NextResponse.json({ error: 'Invalid includeAll' }, { status: 400 })
+    }
+
+    const snoozedUntil = body.snoozedUntil ? new Date(body.snoozedUntil) : null
+    if (snoozedUntil && isNaN(snoozedUntil.getTime())) {
+      return NextResponse.json({ error: 'Invalid snoozedUntil' }, { status: 400 })
+    }
+
+    if (
+      body.filterExemptions !== undefined &&
+      (!Array.isArray(body.filterExemptions) || body.filterExemptions.some((r) => !FILTER_REASONS.includes(r)))
+    ) {
+      return NextResponse.json({ error: 'Invalid filterExemptions' }, { status: 400 })
+    }
+
+    const thresholds: [string, number | null | undefined, number, number][] = [
+      ['filterMinLength', body.filterMinLength, 0, 1000],
+      ['filterAdWordThreshold', body.filterAdWordThreshold, 1, 20],
+      ['filterEmojiRatio', body.filterEmojiRatio, 0, 10],
+    ]
+    for (const [name, value, min, max] of thresholds) {
+      if (value !== undefined && value !== null && (typeof value !== 'number' || value < min || value > max)) {
+        return NextResponse.json({ error: `${name} must be between ${min} and ${max}` }, { status: 400 })
+      }
+    }
+
     const updated = await prisma.userChannel.updateMany({
       where: { userId: user.id, channelId },
-      data: { groupId: body.groupId ?? null },
+      data: {
+        ...(body.groupId !== undefined && { groupId: body.groupId }),
+        ...(body.topicIds !== undefined && { topicIds: Array.from(new Set(body.topicIds)) }),
+        ...(body.weight !== undefined && { weight: body.weight }),
+        ...(body.minImportanceScore !== undefined && { minImportanceScore: body.minImportanceScore }),
+        ...(body.includeAll !== undefined && { includeAll: body.includeAll }),
+        ...(body.snoozedUntil !== undefined && { snoozedUntil }),
+        ...(body.filterExemptions !== undefined && { filterExemptions: Array.from(new Set(body.filterExemptions)) }),
+        ...(body.filterMinLength !== undefined && { filterMinLength: body.filterMinLength }),
+        ...(body.filterAdWordThreshold !== undefined && { filterAdWordThreshold: body.filterAdWordThreshold }),
+        ...(body.filterEmojiRatio !== undefined && { filterEmojiRatio: body.filterEmojiRatio }),
+      },
     })
 
     if (updated.count === 0) {
       return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
     }
 
+    // Posts dropped for every subscriber become live again once this user's looser settings keep them
+    const filterChanged = [body.filterExemptions, body.filterMinLength, body.filterAdWordThreshold, body.filterEmojiRatio]
+      .some((v) => v !== undefined)
+    if (filterChanged) {
+      const subscription = await prisma.userChannel.findUniqueOrThrow({
+        where: { userId_channelId: { userId: user.id, channelId } },
+      })
+      const config = filterConfigFor(subscription)
+      const filtered = await prisma.message.findMany({
+        where: { channelId, isFiltered: true, deletedAt: null, postedAt: { gte: new Date(Date.now() - REFILTER_WINDOW_MS) } },
+        select: { id: true, text: true, filterReason: true },
+      })
+      const kept = filtered.filter((m) => filterReasonFor(m, config) === null).map((m) => m.id)
+      if (kept.length > 0) {
+        await prisma.message.updateMany({ where: { id: { in: kept } }, data: { isFiltered: false } })
+      }
+    }
+
     return NextResponse.json({ ok: true })
   } catch (error) {
     logger.error('PATCH /api/channels/:id error', { error })
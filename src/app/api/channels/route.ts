@@ -7,6 +7,26 @@ const logger = createLogger('ChannelsAPI')
 const WORKER_URL = process.env.WORKER_URL ?? 'http://localhost:3001'
 const INTERNAL_SECRET = process.env.INTERNAL_SECRET ?? ''
 
+type ResolveResponse =
+  | {
+      status: 'joined'
+      id: string
+      title: string
+      username: string | null
+      accessHash: string
+      kind: 'BROADCAST' | 'MEGAGROUP' | 'FORUM'
+      topics: { id: number; title: string }[]
+    }
+  | { status: 'pending_approval' | 'private' | 'not_a_channel' | 'not_found' | 'invalid_invite'; title?: string }
+
+const RESOLVE_ERRORS: Record<Exclude<ResolveResponse['status'], 'joined'>, { error: string; status: number }> = {
+  pending_approval: { error: 'Заявка на вступление отправлена. Добавьте канал снова, когда администратор её одобрит.', status: 409 },
+  private: { error: 'Канал приватный или недоступен. Используйте ссылку-приглашение.', status: 403 },
+  not_a_channel: { error: 'По этой ссылке не канал и не супергруппа', status: 400 },
+  not_found: { error: 'Канал не найден', status: 404 },
+  invalid_invite: { error: 'Ссылка-приглашение недействительна или истекла', status: 400 },
+}
+
 export async function GET(req: NextRequest) {
   const initData = req.headers.get('x-telegram-init-data')
   if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
@@ -28,6 +48,12 @@ export async function GET(req: NextRequest) {
       title: uc.channel.title,
       addedAt: uc.addedAt,
       groupId: uc.groupId,
+      kind: uc.channel.kind,
+      topicIds: uc.topicIds,
+      weight: uc.weight,
+      minImportanceScore: uc.minImportanceScore,
+      includeAll: uc.includeAll,
+      snoozedUntil: uc.snoozedUntil,
     })))
   } catch (error) {
     logger.error('GET /api/channels error', { error })
@@ -62,18 +88,33 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: err.error ?? 'Channel not found' }, { status: 404 })
     }
 
-    const resolved = await workerRes.json() as { id: string; title: string; username: string | null }
+    const resolved = await workerRes.json() as ResolveResponse
+
+    if (resolved.status !== 'joined') {
+      const { error, status } = RESOLVE_ERRORS[resolved.status]
+      return NextResponse.json({ error, status: resolved.status }, { status })
+    }
 
     const channel = await prisma.channel.upsert({
       where: { telegramChannelId: BigInt(resolved.id) },
-      update: { title: resolved.title, username: resolved.username },
+      update: { title: resolved.title, username: resolved.username, accessHash: BigInt(resolved.accessHash), kind: resolved.kind },
       create: {
         telegramChannelId: BigInt(resolved.id),
         title: resolved.title,
         username: resolved.username,
+        accessHash: BigInt(resolved.accessHash),
+        kind: resolved.kind,
       },
     })
 
+    for (const topic of resolved.topics) {
+      await prisma.forumTopic.upsert({
+        where: { channelId_topicId: { channelId: channel.id, topicId: topic.id } },
+        update: { title: topic.title },
+        create: { channelId: channel.id, topicId: topic.id, title: topic.title },
+      })
+    }
+
     const existing = await prisma.userChannel.findUnique({
       where: { userId_channelId: { userId: user.id, channelId: channel.id } },
     })
@@ -94,6 +135,13 @@ export async function POST(req: NextRequest) {
       username: userChannel.channel.username,
       title: userChannel.channel.title,
       addedAt: userChannel.addedAt,
+      groupId: userChannel.groupId,
+      kind: userChannel.channel.kind,
+      topicIds: userChannel.topicIds,
+      weight: userChannel.weight,
+      minImportanceScore: userChannel.minImportanceScore,
+      includeAll: userChannel.includeAll,
+      snoozedUntil: userChannel.snoozedUntil,
     }, { status: 201 })
   } catch (error) {
     logger.error('POST /api/channels error', { error })
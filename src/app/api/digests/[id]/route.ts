@@ -35,12 +35,15 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
       return NextResponse.json({ error: 'Digest not found' }, { status: 404 })
     }
 
+    const deliveredAt = digest.sentAt ?? digest.generatedAt
+
     return NextResponse.json({
       id: digest.id,
       generatedAt: digest.generatedAt,
       sentAt: digest.sentAt,
       periodStart: digest.periodStart,
       periodEnd: digest.periodEnd,
+      period: digest.period,
       status: digest.status,
       messages: digest.messages.map((dm) => ({
         rank: dm.rank,
@@ -52,6 +55,13 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
         channelTitle: dm.message.channel.title,
         channelUsername: dm.message.channel.username,
         postedAt: dm.message.postedAt,
+        mediaType: dm.message.mediaType,
+        mediaCount: dm.message.mediaCount,
+        editedAt: dm.message.editedAt,
+        editedAfterDigest: dm.message.editedAt !== null && dm.message.editedAt > deliveredAt,
+        deletedAt: dm.message.deletedAt,
+        storyThreadId: dm.message.storyThreadId,
+        storyStatus: dm.storyStatus,
       })),
     })
   } catch (error) {
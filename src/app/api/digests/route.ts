@@ -27,6 +27,7 @@ export async function GET(req: NextRequest) {
       sentAt: d.sentAt,
       periodStart: d.periodStart,
       periodEnd: d.periodEnd,
+      period: d.period,
       status: d.status,
       messageCount: d._count.messages,
     })))
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { buildMessageLink } from '@/lib/links'
+import type { EntityDetail } from '@/types/api'
+
+const logger = createLogger('EntitiesAPI')
+const MENTIONS_LIMIT = 100
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const entityId = parseInt(params.id, 10)
+
+    if (isNaN(entityId)) {
+      return NextResponse.json({ error: 'Invalid entity id' }, { status: 400 })
+    }
+
+    const entity = await prisma.entity.findUnique({
+      where: { id: entityId },
+      include: { watchers: { where: { userId: user.id } } },
+    })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    // Mentions are limited to the user's own channels, newest first
+    const messages = await prisma.message.findMany({
+      where: {
+        entities: { some: { entityId } },
+        isFiltered: false,
+        deletedAt: null,
+        channel: { userChannels: { some: { userId: user.id } } },
+      },
+      orderBy: { postedAt: 'desc' },
+      take: MENTIONS_LIMIT,
+      include: { channel: true },
+    })
+
+    const watch = entity.watchers[0]
+    const detail: EntityDetail = {
+      id: entity.id,
+      type: entity.type,
+      name: entity.name,
+      watch: watch ? { id: watch.id, notify: watch.notify } : null,
+      mentions: messages.map((m) => ({
+        messageId: m.id,
+        channelTitle: m.channel.title,
+        summary: m.summary,
+        text: m.text.slice(0, 500),
+        importanceScore: m.importanceScore,
+        postedAt: m.postedAt.toISOString(),
+        link: buildMessageLink(m.channel, m.telegramMsgId),
+      })),
+    }
+
+    return NextResponse.json(detail)
+  } catch (error) {
+    logger.error('GET /api/entities/:id error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
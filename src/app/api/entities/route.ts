@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { entityKey } from '@/lib/entities'
+import type { EntityResponse } from '@/types/api'
+
+const logger = createLogger('EntitiesAPI')
+const SEARCH_LIMIT = 20
+
+export async function GET(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const query = (req.nextUrl.searchParams.get('q') ?? '').trim()
+
+    if (query.length < 2) {
+      return NextResponse.json({ error: 'Query must be at least 2 characters' }, { status: 400 })
+    }
+
+    // Only entities mentioned in the user's own channels are found, ranked by those mentions alone
+    const counts = await prisma.messageEntity.groupBy({
+      by: ['entityId'],
+      where: {
+        entity: { key: { contains: entityKey(query.replace(/^\$/, '')) } },
+        message: {
+          isFiltered: false,
+          deletedAt: null,
+          channel: { userChannels: { some: { userId: user.id } } },
+        },
+      },
+      _count: { entityId: true },
+      orderBy: { _count: { entityId: 'desc' } },
+      take: SEARCH_LIMIT,
+    })
+
+    const entities = await prisma.entity.findMany({
+      where: { id: { in: counts.map((c) => c.entityId) } },
+    })
+    const byId = new Map(entities.map((e) => [e.id, e]))
+
+    const response: EntityResponse[] = counts.flatMap((c) => {
+      const e = byId.get(c.entityId)
+      return e ? [{ id: e.id, type: e.type, name: e.name, mentionCount: c._count.entityId }] : []
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('GET /api/entities error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
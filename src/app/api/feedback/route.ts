@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { getLearnedPreferences } from '@/services/FeedbackService'
+import type { LearnedWeightResponse } from '@/types/api'
+
+const logger = createLogger('FeedbackAPI')
+
+export async function GET(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const learned = await getLearnedPreferences(user.id)
+
+    const weights: LearnedWeightResponse[] = Array.from(learned.values())
+      .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+      .map((w) => ({
+        dimension: w.dimension,
+        key: w.key,
+        label: w.label,
+        up: w.up,
+        down: w.down,
+        weight: Math.round(w.weight * 100) / 100,
+      }))
+
+    return NextResponse.json(weights)
+  } catch (error) {
+    logger.error('GET /api/feedback error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { DigestPeriod } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { getAuthenticatedUser } from '@/lib/auth'
 import { createLogger } from '@/lib/logger'
+import { validateSchedule } from '@/lib/digestSchedule'
 
 const logger = createLogger('GroupsAPI')
 
@@ -37,6 +39,11 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
       maxMessages: group.maxMessages,
       minImportanceScore: group.minImportanceScore,
       analyticsOnly: group.analyticsOnly,
+      maxPerChannel: group.maxPerChannel,
+      maxPerCategory: group.maxPerCategory,
+      digestPeriod: group.digestPeriod,
+      digestWeekday: group.digestWeekday,
+      digestMonthDay: group.digestMonthDay,
       channelCount: group.userChannels.length,
       channels: group.userChannels.map((uc) => ({
         id: uc.channel.id,
@@ -46,6 +53,12 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
         title: uc.channel.title,
         addedAt: uc.addedAt,
         groupId: uc.groupId,
+        kind: uc.channel.kind,
+        topicIds: uc.topicIds,
+        weight: uc.weight,
+        minImportanceScore: uc.minImportanceScore,
+        includeAll: uc.includeAll,
+        snoozedUntil: uc.snoozedUntil,
       })),
     })
   } catch (error) {
@@ -71,7 +84,13 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
       return NextResponse.json({ error: 'Group not found' }, { status: 404 })
     }
 
-    const body = (await req.json()) as { name?: string; aiPrompt?: string | null; maxMessages?: number; minImportanceScore?: number; analyticsOnly?: boolean }
+    const body = (await req.json()) as { name?: string; aiPrompt?: string | null; maxMessages?: number; minImportanceScore?: number; analyticsOnly?: boolean; maxPerChannel?: number; maxPerCategory?: number; digestPeriod?: DigestPeriod | null; digestWeekday?: number; digestMonthDay?: number }
+
+    // A null period makes the group follow the user's schedule
+    const scheduleError = validateSchedule({ period: body.digestPeriod ?? undefined, weekday: body.digestWeekday, monthDay: body.digestMonthDay })
+    if (scheduleError) {
+      return NextResponse.json({ error: scheduleError }, { status: 400 })
+    }
 
     const group = await prisma.channelGroup.update({
       where: { id: groupId },
@@ -81,6 +100,11 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
         ...(body.maxMessages !== undefined && { maxMessages: Math.min(100, Math.max(5, Math.round(body.maxMessages))) }),
         ...(body.minImportanceScore !== undefined && { minImportanceScore: Math.min(10, Math.max(1, body.minImportanceScore)) }),
         ...(body.analyticsOnly !== undefined && { analyticsOnly: body.analyticsOnly }),
+        ...(body.maxPerChannel !== undefined && { maxPerChannel: Math.min(100, Math.max(1, Math.round(body.maxPerChannel))) }),
+        ...(body.maxPerCategory !== undefined && { maxPerCategory: Math.min(100, Math.max(1, Math.round(body.maxPerCategory))) }),
+        ...(body.digestPeriod !== undefined && { digestPeriod: body.digestPeriod }),
+        ...(body.digestWeekday !== undefined && { digestWeekday: body.digestWeekday }),
+        ...(body.digestMonthDay !== undefined && { digestMonthDay: body.digestMonthDay }),
       },
     })
 
@@ -91,6 +115,11 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
       maxMessages: group.maxMessages,
       minImportanceScore: group.minImportanceScore,
       analyticsOnly: group.analyticsOnly,
+      maxPerChannel: group.maxPerChannel,
+      maxPerCategory: group.maxPerCategory,
+      digestPeriod: group.digestPeriod,
+      digestWeekday: group.digestWeekday,
+      digestMonthDay: group.digestMonthDay,
     })
   } catch (error) {
     logger.error('PATCH /api/groups/:id error', { error })
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendAlertsForMessage } from '@/services/AlertService'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('InternalAPI')
+const INTERNAL_SECRET = process.env.INTERNAL_SECRET ?? ''
+
+export async function POST(req: NextRequest) {
+  const secret = req.headers.get('x-internal-secret')
+  if (!secret || secret !== INTERNAL_SECRET) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { messageId } = (await req.json()) as { messageId: number }
+
+    if (!Number.isInteger(messageId)) {
+      return NextResponse.json({ error: 'messageId required' }, { status: 400 })
+    }
+
+    const sent = await sendAlertsForMessage(messageId)
+    return NextResponse.json({ sent })
+  } catch (error) {
+    logger.error('send-alerts error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -18,7 +18,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'userIds required' }, { status: 400 })
     }
 
-    const results = await Promise.allSettled(userIds.map((id) => sendDigestForUser(id)))
+    const results = await Promise.allSettled(userIds.map((id) => sendDigestForUser(id, { scheduledOnly: true })))
 
     const summary = results.map((r, i) => ({
       userId: userIds[i],
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { KeywordRuleAction, KeywordRuleKind } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import {
+  validatePattern,
+  KEYWORD_RULE_KINDS,
+  KEYWORD_RULE_ACTIONS,
+  MIN_RULE_BOOST,
+  MAX_RULE_BOOST,
+} from '@/services/KeywordRules'
+
+const logger = createLogger('RulesAPI')
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const ruleId = parseInt(params.id, 10)
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Invalid rule id' }, { status: 400 })
+    }
+
+    const existing = await prisma.keywordRule.findUnique({ where: { id: ruleId } })
+    if (!existing || existing.userId !== user.id) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    const body = (await req.json()) as { pattern?: string; kind?: KeywordRuleKind; action?: KeywordRuleAction; boost?: number }
+
+    const kind = body.kind ?? existing.kind
+    const action = body.action ?? existing.action
+    const pattern = body.pattern ?? existing.pattern
+
+    if (!KEYWORD_RULE_KINDS.includes(kind)) {
+      return NextResponse.json({ error: 'Invalid kind' }, { status: 400 })
+    }
+    if (!KEYWORD_RULE_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    const patternError = validatePattern(kind, pattern)
+    if (patternError) {
+      return NextResponse.json({ error: patternError }, { status: 400 })
+    }
+
+    const boost = action === 'BOOST' ? body.boost ?? (existing.boost || 1) : 0
+    if (action === 'BOOST' && (typeof boost !== 'number' || boost < MIN_RULE_BOOST || boost > MAX_RULE_BOOST)) {
+      return NextResponse.json({ error: `boost must be between ${MIN_RULE_BOOST} and ${MAX_RULE_BOOST}` }, { status: 400 })
+    }
+
+    const rule = await prisma.keywordRule.update({
+      where: { id: ruleId },
+      data: { kind, action, pattern: pattern.trim(), boost },
+    })
+
+    return NextResponse.json({
+      id: rule.id,
+      groupId: rule.groupId,
+      kind: rule.kind,
+      pattern: rule.pattern,
+      action: rule.action,
+      boost: rule.boost,
+      createdAt: rule.createdAt,
+    })
+  } catch (error) {
+    logger.error('PATCH /api/rules/:id error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const ruleId = parseInt(params.id, 10)
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Invalid rule id' }, { status: 400 })
+    }
+
+    const deleted = await prisma.keywordRule.deleteMany({
+      where: { id: ruleId, userId: user.id },
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    logger.error('DELETE /api/rules/:id error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
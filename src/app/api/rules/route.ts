@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { KeywordRuleAction, KeywordRuleKind } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import {
+  validatePattern,
+  KEYWORD_RULE_KINDS,
+  KEYWORD_RULE_ACTIONS,
+  MIN_RULE_BOOST,
+  MAX_RULE_BOOST,
+} from '@/services/KeywordRules'
+
+const logger = createLogger('RulesAPI')
+
+export async function GET(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+
+    const rules = await prisma.keywordRule.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json(rules.map((r) => ({
+      id: r.id,
+      groupId: r.groupId,
+      kind: r.kind,
+      pattern: r.pattern,
+      action: r.action,
+      boost: r.boost,
+      createdAt: r.createdAt,
+    })))
+  } catch (error) {
+    logger.error('GET /api/rules error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const body = (await req.json()) as {
+      pattern: string
+      kind?: KeywordRuleKind
+      action: KeywordRuleAction
+      boost?: number
+      groupId?: number | null
+    }
+
+    const kind = body.kind ?? 'KEYWORD'
+    if (!KEYWORD_RULE_KINDS.includes(kind)) {
+      return NextResponse.json({ error: 'Invalid kind' }, { status: 400 })
+    }
+    if (!KEYWORD_RULE_ACTIONS.includes(body.action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    const patternError = validatePattern(kind, body.pattern ?? '')
+    if (patternError) {
+      return NextResponse.json({ error: patternError }, { status: 400 })
+    }
+
+    const boost = body.action === 'BOOST' ? body.boost ?? 1 : 0
+    if (body.action === 'BOOST' && (typeof boost !== 'number' || boost < MIN_RULE_BOOST || boost > MAX_RULE_BOOST)) {
+      return NextResponse.json({ error: `boost must be between ${MIN_RULE_BOOST} and ${MAX_RULE_BOOST}` }, { status: 400 })
+    }
+
+    // Verify the groupId belongs to this user
+    if (body.groupId !== null && body.groupId !== undefined) {
+      const group = await prisma.channelGroup.findUnique({ where: { id: body.groupId } })
+      if (!group || group.userId !== user.id) {
+        return NextResponse.json({ error: 'Group not found' }, { status: 404 })
+      }
+    }
+
+    const rule = await prisma.keywordRule.create({
+      data: {
+        userId: user.id,
+        groupId: body.groupId ?? null,
+        kind,
+        pattern: body.pattern.trim(),
+        action: body.action,
+        boost,
+      },
+    })
+
+    return NextResponse.json({
+      id: rule.id,
+      groupId: rule.groupId,
+      kind: rule.kind,
+      pattern: rule.pattern,
+      action: rule.action,
+      boost: rule.boost,
+      createdAt: rule.createdAt,
+    }, { status: 201 })
+  } catch (error) {
+    logger.error('POST /api/rules error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
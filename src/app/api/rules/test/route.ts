@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { KeywordRuleKind } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { buildMessageLink } from '@/lib/links'
+import { compilePattern, matchesPattern, validatePattern, KEYWORD_RULE_KINDS } from '@/services/KeywordRules'
+import type { RuleTestResponse } from '@/types/api'
+
+const logger = createLogger('RulesAPI')
+const TEST_WINDOW_MS = 3 * 24 * 60 * 60 * 1000 // 3 days
+const TEST_SCAN_LIMIT = 1000
+const TEST_MATCH_LIMIT = 20
+
+// Dry-runs a rule that is not saved yet against the user's recent messages
+export async function POST(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const body = (await req.json()) as { pattern: string; kind?: KeywordRuleKind; groupId?: number | null }
+
+    const kind = body.kind ?? 'KEYWORD'
+    if (!KEYWORD_RULE_KINDS.includes(kind)) {
+      return NextResponse.json({ error: 'Invalid kind' }, { status: 400 })
+    }
+
+    const patternError = validatePattern(kind, body.pattern ?? '')
+    if (patternError) {
+      return NextResponse.json({ error: patternError }, { status: 400 })
+    }
+
+    const regex = compilePattern(kind, body.pattern.trim())
+    const messages = await prisma.message.findMany({
+      where: {
+        postedAt: { gte: new Date(Date.now() - TEST_WINDOW_MS) },
+        deletedAt: null,
+        channel: {
+          userChannels: {
+            some: { userId: user.id, ...(body.groupId ? { groupId: body.groupId } : {}) },
+          },
+        },
+      },
+      orderBy: { postedAt: 'desc' },
+      take: TEST_SCAN_LIMIT,
+      include: { channel: true },
+    })
+
+    const matches = messages.filter((m) => matchesPattern(regex, m.text)).slice(0, TEST_MATCH_LIMIT)
+
+    const result: RuleTestResponse = {
+      scanned: messages.length,
+      matches: matches.map((m) => ({
+        messageId: m.id,
+        channelTitle: m.channel.title,
+        text: m.text.slice(0, 300),
+        postedAt: m.postedAt.toISOString(),
+        link: buildMessageLink(m.channel, m.telegramMsgId),
+      })),
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error('POST /api/rules/test error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { buildMessageLink } from '@/lib/links'
+import type { SearchResponse } from '@/types/api'
+
+const logger = createLogger('SearchAPI')
+const PAGE_SIZE = 30
+const MAX_QUERY_LENGTH = 200
+
+// Matches are wrapped in control characters the client turns into highlights, so no HTML from posts is rendered
+const HEADLINE_OPTIONS = 'StartSel=\u0002, StopSel=\u0003, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+
+interface SearchRow {
+  id: number
+  channelId: number
+  category: string | null
+  importanceScore: number | null
+  postedAt: Date
+  summary: string | null
+  telegramMsgId: number
+  title: string
+  username: string | null
+  telegramChannelId: bigint
+  snippet: string
+}
+
+function parseNumber(value: string | null): number | undefined | null {
+  if (value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (value === null || value === '') return undefined
+  const parsed = new Date(value)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+export async function GET(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const params = req.nextUrl.searchParams
+    const query = (params.get('q') ?? '').trim()
+
+    if (query.length < 2 || query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: `Query must be 2-${MAX_QUERY_LENGTH} characters` }, { status: 400 })
+    }
+
+    const channelId = parseNumber(params.get('channelId'))
+    const groupId = parseNumber(params.get('groupId'))
+    const minScore = parseNumber(params.get('minScore'))
+    const maxScore = parseNumber(params.get('maxScore'))
+    const offset = parseNumber(params.get('offset')) ?? 0
+    const from = parseDate(params.get('from'))
+    const to = parseDate(params.get('to'))
+    const category = params.get('category') || undefined
+
+    if (channelId === null || groupId === null || minScore === null || maxScore === null || from === null || to === null) {
+      return NextResponse.json({ error: 'Invalid filter value' }, { status: 400 })
+    }
+    if (offset === null || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json({ error: 'Invalid offset' }, { status: 400 })
+    }
+
+    // Search never leaves the caller's own subscriptions
+    const subscriptions = await prisma.userChannel.findMany({
+      where: {
+        userId: user.id,
+        ...(channelId !== undefined && { channelId }),
+        ...(groupId !== undefined && { groupId }),
+      },
+      select: { channelId: true },
+    })
+
+    if (subscriptions.length === 0) {
+      const empty: SearchResponse = { results: [], hasMore: false }
+      return NextResponse.json(empty)
+    }
+
+    const filters = [
+      category ? Prisma.sql`AND m.category = ${category}` : Prisma.empty,
+      minScore !== undefined ? Prisma.sql`AND m."importanceScore" >= ${minScore}` : Prisma.empty,
+      maxScore !== undefined ? Prisma.sql`AND m."importanceScore" <= ${maxScore}` : Prisma.empty,
+      from ? Prisma.sql`AND m."postedAt" >= ${from}` : Prisma.empty,
+      to ? Prisma.sql`AND m."postedAt" <= ${to}` : Prisma.empty,
+    ]
+
+    // Headlines are only built for the page being returned
+    const rows = await prisma.$queryRaw<SearchRow[]>`
+      SELECT hit.*, ts_headline('russian', hit.text, websearch_to_tsquery('russian', ${query}), ${HEADLINE_OPTIONS}) AS snippet
+      FROM (
+        SELECT m.id, m."channelId", m.category, m."importanceScore", m."postedAt", m.summary, m.text, m."telegramMsgId",
+               c.title, c.username, c."telegramChannelId",
+               ts_rank(m."searchVector", websearch_to_tsquery('russian', ${query})) AS rank
+        FROM "Message" m
+        JOIN "Channel" c ON c.id = m."channelId"
+        WHERE m."searchVector" @@ websearch_to_tsquery('russian', ${query})
+          AND m."channelId" IN (${Prisma.join(subscriptions.map((s) => s.channelId))})
+          AND m."isFiltered" = false
+          AND m."deletedAt" IS NULL
+          ${Prisma.join(filters, ' ')}
+        ORDER BY rank DESC, m."postedAt" DESC
+        LIMIT ${PAGE_SIZE + 1} OFFSET ${offset}
+      ) hit
+      ORDER BY hit.rank DESC, hit."postedAt" DESC
+    `
+
+    const response: SearchResponse = {
+      results: rows.slice(0, PAGE_SIZE).map((r) => ({
+        messageId: r.id,
+        channelId: r.channelId,
+        channelTitle: r.title,
+        category: r.category,
+        importanceScore: r.importanceScore,
+        postedAt: r.postedAt.toISOString(),
+        summary: r.summary,
+        snippet: r.snippet,
+        link: buildMessageLink({ username: r.username, telegramChannelId: r.telegramChannelId }, r.telegramMsgId),
+      })),
+      hasMore: rows.length > PAGE_SIZE,
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('GET /api/search error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { DigestPeriod } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { getAuthenticatedUser } from '@/lib/auth'
 import { createLogger } from '@/lib/logger'
+import { validateSchedule } from '@/lib/digestSchedule'
 
 const logger = createLogger('SettingsAPI')
 
@@ -13,6 +15,9 @@ export async function GET(req: NextRequest) {
     const user = await getAuthenticatedUser(initData)
     return NextResponse.json({
       digestTime: user.digestTime,
+      digestPeriod: user.digestPeriod,
+      digestWeekday: user.digestWeekday,
+      digestMonthDay: user.digestMonthDay,
       timezone: user.timezone,
       active: user.active,
       digestPreferences: user.digestPreferences,
@@ -31,9 +36,9 @@ export async function PATCH(req: NextRequest) {
 
   try {
     const user = await getAuthenticatedUser(initData)
-    const body = (await req.json()) as Partial<{ digestTime: string; timezone: string; active: boolean; digestPreferences: string | null; minImportanceScore: number; analyticsOnly: boolean }>
+    const body = (await req.json()) as Partial<{ digestTime: string; digestPeriod: DigestPeriod; digestWeekday: number; digestMonthDay: number; timezone: string; active: boolean; digestPreferences: string | null; minImportanceScore: number; analyticsOnly: boolean }>
 
-    const updates: { digestTime?: string; timezone?: string; active?: boolean; digestPreferences?: string | null; minImportanceScore?: number; analyticsOnly?: boolean } = {}
+    const updates: { digestTime?: string; digestPeriod?: DigestPeriod; digestWeekday?: number; digestMonthDay?: number; timezone?: string; active?: boolean; digestPreferences?: string | null; minImportanceScore?: number; analyticsOnly?: boolean } = {}
 
     if (body.digestTime !== undefined) {
       if (!/^\d{2}:\d{2}$/.test(body.digestTime)) {
@@ -42,6 +47,14 @@ export async function PATCH(req: NextRequest) {
       updates.digestTime = body.digestTime
     }
 
+    const scheduleError = validateSchedule({ period: body.digestPeriod, weekday: body.digestWeekday, monthDay: body.digestMonthDay })
+    if (scheduleError) {
+      return NextResponse.json({ error: scheduleError }, { status: 400 })
+    }
+    if (body.digestPeriod !== undefined) updates.digestPeriod = body.digestPeriod
+    if (body.digestWeekday !== undefined) updates.digestWeekday = body.digestWeekday
+    if (body.digestMonthDay !== undefined) updates.digestMonthDay = body.digestMonthDay
+
     if (body.timezone !== undefined) {
       try {
         Intl.DateTimeFormat(undefined, { timeZone: body.timezone })
@@ -74,6 +87,9 @@ export async function PATCH(req: NextRequest) {
 
     return NextResponse.json({
       digestTime: updated.digestTime,
+      digestPeriod: updated.digestPeriod,
+      digestWeekday: updated.digestWeekday,
+      digestMonthDay: updated.digestMonthDay,
       timezone: updated.timezone,
       active: updated.active,
       digestPreferences: updated.digestPreferences,
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { buildMessageLink } from '@/lib/links'
+import type { StoryThreadDetail } from '@/types/api'
+
+const logger = createLogger('StoriesAPI')
+const PAGE_SIZE = 50
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const storyThreadId = parseInt(params.id, 10)
+    const offset = Number(req.nextUrl.searchParams.get('offset') ?? 0)
+
+    if (isNaN(storyThreadId)) {
+      return NextResponse.json({ error: 'Invalid story id' }, { status: 400 })
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json({ error: 'Invalid offset' }, { status: 400 })
+    }
+
+    const thread = await prisma.storyThread.findUnique({ where: { id: storyThreadId } })
+    if (!thread) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 })
+    }
+
+    // Only the part of the story that came through the user's own channels is shown
+    const where = {
+      storyThreadId,
+      isFiltered: false,
+      deletedAt: null,
+      channel: { userChannels: { some: { userId: user.id } } },
+    }
+    const [messageCount, messages] = await Promise.all([
+      prisma.message.count({ where }),
+      prisma.message.findMany({
+        where,
+        orderBy: { postedAt: 'asc' },
+        skip: offset,
+        take: PAGE_SIZE + 1,
+        include: {
+          channel: true,
+          digestMessages: { where: { digest: { userId: user.id } }, select: { id: true } },
+        },
+      }),
+    ])
+
+    if (messageCount === 0) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 })
+    }
+
+    const detail: StoryThreadDetail = {
+      id: thread.id,
+      title: thread.title,
+      firstSeenAt: thread.firstSeenAt.toISOString(),
+      lastSeenAt: thread.lastSeenAt.toISOString(),
+      messageCount,
+      timeline: messages.slice(0, PAGE_SIZE).map((m) => ({
+        messageId: m.id,
+        channelTitle: m.channel.title,
+        summary: m.summary,
+        text: m.text.slice(0, 500),
+        importanceScore: m.importanceScore,
+        postedAt: m.postedAt.toISOString(),
+        link: buildMessageLink(m.channel, m.telegramMsgId),
+        delivered: m.digestMessages.length > 0,
+      })),
+      hasMore: messages.length > PAGE_SIZE,
+    }
+
+    return NextResponse.json(detail)
+  } catch (error) {
+    logger.error('GET /api/stories/:id error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
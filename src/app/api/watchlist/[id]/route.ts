@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('WatchlistAPI')
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const watchId = parseInt(params.id, 10)
+
+    if (isNaN(watchId)) {
+      return NextResponse.json({ error: 'Invalid watch id' }, { status: 400 })
+    }
+
+    const { notify } = (await req.json()) as { notify?: boolean }
+    if (typeof notify !== 'boolean') {
+      return NextResponse.json({ error: 'notify must be a boolean' }, { status: 400 })
+    }
+
+    const updated = await prisma.watchedEntity.updateMany({
+      where: { id: watchId, userId: user.id },
+      data: { notify },
+    })
+    if (updated.count === 0) {
+      return NextResponse.json({ error: 'Watch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    logger.error('PATCH /api/watchlist/:id error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const watchId = parseInt(params.id, 10)
+
+    if (isNaN(watchId)) {
+      return NextResponse.json({ error: 'Invalid watch id' }, { status: 400 })
+    }
+
+    const deleted = await prisma.watchedEntity.deleteMany({ where: { id: watchId, userId: user.id } })
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Watch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    logger.error('DELETE /api/watchlist/:id error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EntityType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { ENTITY_TYPES, cleanEntityName, entityKey } from '@/lib/entities'
+import type { WatchedEntityResponse } from '@/types/api'
+
+const logger = createLogger('WatchlistAPI')
+const RECENT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+export async function GET(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+
+    const watched = await prisma.watchedEntity.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'asc' },
+      include: { entity: true },
+    })
+
+    const counts = watched.length === 0 ? [] : await prisma.messageEntity.groupBy({
+      by: ['entityId'],
+      where: {
+        entityId: { in: watched.map((w) => w.entityId) },
+        message: {
+          postedAt: { gte: new Date(Date.now() - RECENT_WINDOW_MS) },
+          isFiltered: false,
+          deletedAt: null,
+          channel: { userChannels: { some: { userId: user.id } } },
+        },
+      },
+      _count: { _all: true },
+    })
+    const countByEntity = new Map(counts.map((c) => [c.entityId, c._count._all]))
+
+    const response: WatchedEntityResponse[] = watched.map((w) => ({
+      id: w.id,
+      entityId: w.entityId,
+      type: w.entity.type,
+      name: w.entity.name,
+      notify: w.notify,
+      recentMentions: countByEntity.get(w.entityId) ?? 0,
+    }))
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error('GET /api/watchlist error', { error })
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
+
+// Watches a known entity by id, or one that has not been mentioned yet by type and name
+export async function POST(req: NextRequest) {
+  const initData = req.headers.get('x-telegram-init-data')
+  if (!initData) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const user = await getAuthenticatedUser(initData)
+    const body = (await req.json()) as { entityId?: number; type?: EntityType; name?: string; notify?: boolean }
+
+    let entityId = body.entityId
+    if (entityId !== undefined) {
+      const entity = await prisma.entity.findUnique({ where: { id: entityId } })
+      if (!entity) {
+        return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+      }
+    } else {
+      if (!body.type || !ENTITY_TYPES.includes(body.type)) {
+        return NextResponse.json({ error: 'Invalid type' }, { status: 400 })
+      }
+      const name = cleanEntityName(body.type, body.name ?? '')
+      if (!name) {
+        return NextResponse.json({ error: 'Invalid name' }, { status: 400 })
+      }
+      const entity = await prisma.entity.upsert({
+        where: { type_key: { type: body.type, key: entityKey(name) } },
+        create: { type: body.type, key: entityKey(name), name },
+        update: {},
+      })
+      entityId = entity.id
+    }
+
+    const watch = await prisma.watchedEntity.upsert({
+      where: { userId_entityId: { userId: user.id, entityId } },
+      create: { userId: user.id, entityId, notify: body.notify ?? false },
+      update: {},
+      include: { entity: true },
+    })
+
+    logger.info('Entity added to watchlist', { userId: user.id, entityId })
+    const response: WatchedEntityResponse = {
+      id: watch.id,
+      entityId: watch.entityId,
+      type: watch.entity.type,
+      name: watch.entity.name,
+      notify: watch.notify,
+      recentMentions: 0,
+    }
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    logger.error('POST /api/watchlist error', { error })
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
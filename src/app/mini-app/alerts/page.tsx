@@ -0,0 +1,274 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { AlertSettingsResponse, GroupResponse } from '@/types/api'
+
+const CATEGORY_LABELS: Record<string, string> = {
+  politics: 'Политика',
+  economy: 'Экономика',
+  technology: 'Технологии',
+  science: 'Наука',
+  society: 'Общество',
+  sports: 'Спорт',
+  culture: 'Культура',
+  other: 'Другое',
+}
+
+const DEFAULT_SETTINGS: Omit<AlertSettingsResponse, 'groupId'> = {
+  enabled: false,
+  threshold: 9,
+  categories: [],
+  quietStart: null,
+  quietEnd: null,
+  maxPerDay: 5,
+}
+
+const inputStyle = {
+  padding: '8px 10px',
+  borderRadius: 8,
+  border: '1px solid var(--tg-theme-hint-color, #ccc)',
+  fontSize: 15,
+  boxSizing: 'border-box' as const,
+  background: 'var(--tg-theme-bg-color, #fff)',
+  color: 'var(--tg-theme-text-color, #000)',
+}
+
+export default function AlertsPage() {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [settings, setSettings] = useState<AlertSettingsResponse[]>([])
+  const [groups, setGroups] = useState<GroupResponse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [groupId, setGroupId] = useState<number | null>(null)
+  const [form, setForm] = useState(DEFAULT_SETTINGS)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    Promise.all([
+      request<AlertSettingsResponse[]>('/api/alerts'),
+      request<GroupResponse[]>('/api/groups'),
+    ])
+      .then(([s, g]) => {
+        setSettings(s)
+        setGroups(g)
+        const own = s.find((x) => x.groupId === null)
+        if (own) setForm(own)
+      })
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [isReady, initData, request])
+
+  const userSettings = settings.find((s) => s.groupId === null)
+  const scopeSettings = settings.find((s) => s.groupId === groupId)
+  // A group without its own settings follows the user-wide ones
+  const inherited = groupId !== null && !scopeSettings
+
+  function selectScope(id: number | null) {
+    setGroupId(id)
+    setForm(settings.find((s) => s.groupId === id) ?? userSettings ?? DEFAULT_SETTINGS)
+  }
+
+  function toggleCategory(category: string) {
+    setForm((prev) => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter((c) => c !== category)
+        : [...prev.categories, category],
+    }))
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setSaved(false)
+    try {
+      const quiet = form.quietStart && form.quietEnd
+      const updated = await request<AlertSettingsResponse>('/api/alerts', {
+        method: 'PUT',
+        body: JSON.stringify({
+          groupId,
+          enabled: form.enabled,
+          threshold: form.threshold,
+          categories: form.categories,
+          quietStart: quiet ? form.quietStart : null,
+          quietEnd: quiet ? form.quietEnd : null,
+          maxPerDay: form.maxPerDay,
+        }),
+      })
+      setSettings((prev) => [...prev.filter((s) => s.groupId !== groupId), updated])
+      setSaved(true)
+      setTimeout(() => setSaved(false), 2000)
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleReset() {
+    if (groupId === null) return
+    try {
+      await request(`/api/alerts?groupId=${groupId}`, { method: 'DELETE' })
+      setSettings((prev) => prev.filter((s) => s.groupId !== groupId))
+      setForm(userSettings ?? DEFAULT_SETTINGS)
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  if (!isReady || loading) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  if (error) {
+    return <div style={{ padding: 20, color: 'red' }}>Ошибка: {error}</div>
+  }
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Срочные оповещения</h1>
+      </div>
+
+      <p style={{ fontSize: 13, opacity: 0.7, marginTop: 0, marginBottom: 16 }}>
+        Важные новости приходят сразу после оценки, не дожидаясь дайджеста. Одна и та же новость из нескольких
+        каналов присылается один раз, а в дайджесте отмечается как уже отправленная.
+      </p>
+
+      <select
+        value={groupId ?? ''}
+        onChange={(e) => selectScope(e.target.value ? Number(e.target.value) : null)}
+        style={{ ...inputStyle, width: '100%', marginBottom: 16 }}
+      >
+        <option value="">Все каналы</option>
+        {groups.map((g) => (
+          <option key={g.id} value={g.id}>
+            📂 {g.name}{settings.some((s) => s.groupId === g.id) ? '' : ' (как для всех каналов)'}
+          </option>
+        ))}
+      </select>
+
+      {inherited && (
+        <div style={{ fontSize: 13, opacity: 0.6, marginBottom: 12 }}>
+          Сейчас группа использует общие настройки. Сохраните, чтобы задать для неё свои.
+        </div>
+      )}
+
+      <div style={{ marginBottom: 20, padding: '12px 14px', background: 'var(--tg-theme-secondary-bg-color, #f5f5f5)', borderRadius: 10 }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 12, cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+            style={{ width: 18, height: 18, cursor: 'pointer', accentColor: 'var(--tg-theme-button-color, #2481cc)', flexShrink: 0 }}
+          />
+          <div style={{ fontSize: 15, fontWeight: 600 }}>Присылать срочные новости</div>
+        </label>
+      </div>
+
+      <div style={{ marginBottom: 20, opacity: form.enabled ? 1 : 0.5 }}>
+        <div style={{ fontWeight: 500, marginBottom: 6 }}>
+          Минимальная оценка
+          <span style={{ marginLeft: 8, fontWeight: 700, color: 'var(--tg-theme-button-color, #2481cc)' }}>{form.threshold}+</span>
+        </div>
+        <input
+          type="range"
+          min={5}
+          max={10}
+          step={0.5}
+          value={form.threshold}
+          onChange={(e) => setForm({ ...form, threshold: Number(e.target.value) })}
+          style={{ width: '100%', accentColor: 'var(--tg-theme-button-color, #2481cc)' }}
+        />
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, opacity: 0.5, marginTop: 2 }}>
+          <span>5 (часто)</span>
+          <span>10 (только исключительное)</span>
+        </div>
+      </div>
+
+      <div style={{ marginBottom: 20, opacity: form.enabled ? 1 : 0.5 }}>
+        <div style={{ fontWeight: 500, marginBottom: 6 }}>Категории</div>
+        <div style={{ fontSize: 13, opacity: 0.6, marginBottom: 8 }}>Если ничего не выбрано — все категории.</div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+          {Object.entries(CATEGORY_LABELS).map(([category, label]) => {
+            const active = form.categories.includes(category)
+            return (
+              <button
+                key={category}
+                onClick={() => toggleCategory(category)}
+                style={{ padding: '6px 10px', borderRadius: 14, fontSize: 13, cursor: 'pointer', border: '1px solid var(--tg-theme-button-color, #2481cc)', background: active ? 'var(--tg-theme-button-color, #2481cc)' : 'none', color: active ? 'var(--tg-theme-button-text-color, #fff)' : 'var(--tg-theme-button-color, #2481cc)' }}
+              >
+                {label}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      <div style={{ marginBottom: 20, opacity: form.enabled ? 1 : 0.5 }}>
+        <div style={{ fontWeight: 500, marginBottom: 6 }}>Тихие часы</div>
+        <div style={{ fontSize: 13, opacity: 0.6, marginBottom: 8 }}>В это время оповещения не приходят, новости попадут в дайджест.</div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <input
+            type="time"
+            value={form.quietStart ?? ''}
+            onChange={(e) => setForm({ ...form, quietStart: e.target.value || null })}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <span>—</span>
+          <input
+            type="time"
+            value={form.quietEnd ?? ''}
+            onChange={(e) => setForm({ ...form, quietEnd: e.target.value || null })}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+        </div>
+      </div>
+
+      <div style={{ marginBottom: 24, opacity: form.enabled ? 1 : 0.5 }}>
+        <div style={{ fontWeight: 500, marginBottom: 6 }}>
+          Не больше в день
+          <span style={{ marginLeft: 8, fontWeight: 700, color: 'var(--tg-theme-button-color, #2481cc)' }}>{form.maxPerDay}</span>
+        </div>
+        <input
+          type="range"
+          min={1}
+          max={20}
+          step={1}
+          value={form.maxPerDay}
+          onChange={(e) => setForm({ ...form, maxPerDay: Number(e.target.value) })}
+          style={{ width: '100%', accentColor: 'var(--tg-theme-button-color, #2481cc)' }}
+        />
+      </div>
+
+      {saved && <div style={{ marginBottom: 12, color: 'green', fontSize: 14 }}>✓ Сохранено</div>}
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        style={{ width: '100%', padding: '12px', background: 'var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-text-color, #fff)', border: 'none', borderRadius: 8, fontSize: 16, cursor: saving ? 'wait' : 'pointer', opacity: saving ? 0.6 : 1 }}
+      >
+        {saving ? 'Сохранение...' : 'Сохранить'}
+      </button>
+
+      {groupId !== null && !inherited && (
+        <button
+          onClick={handleReset}
+          style={{ width: '100%', marginTop: 8, padding: '10px', background: 'none', border: 'none', color: 'var(--tg-theme-hint-color, #888)', fontSize: 14, cursor: 'pointer' }}
+        >
+          Использовать общие настройки
+        </button>
+      )}
+    </div>
+  )
+}
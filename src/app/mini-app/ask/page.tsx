@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { AskResponse, AskSource } from '@/types/api'
+
+const PERIODS = [
+  { days: 1, label: 'День' },
+  { days: 7, label: 'Неделя' },
+  { days: 30, label: 'Месяц' },
+]
+
+interface ChatEntry {
+  question: string
+  response: AskResponse | null
+  error: string | null
+}
+
+// Citations like [2] in the answer link to the matching source
+function Answer({ text, sources }: { text: string; sources: AskSource[] }) {
+  const parts = text.split(/(\[\d+\])/)
+  return (
+    <>
+      {parts.map((part, i) => {
+        const source = /^\[\d+\]$/.test(part) ? sources[Number(part.slice(1, -1)) - 1] : undefined
+        return source
+          ? <a key={i} href={source.link} target="_blank" rel="noreferrer" style={{ color: 'var(--tg-theme-link-color, #2481cc)', textDecoration: 'none' }}>{part}</a>
+          : <span key={i}>{part}</span>
+      })}
+    </>
+  )
+}
+
+export default function AskPage() {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [question, setQuestion] = useState('')
+  const [days, setDays] = useState(7)
+  const [entries, setEntries] = useState<ChatEntry[]>([])
+  const [asking, setAsking] = useState(false)
+
+  async function handleAsk() {
+    const text = question.trim()
+    if (text.length < 3 || asking) return
+    setAsking(true)
+    setQuestion('')
+    setEntries((prev) => [...prev, { question: text, response: null, error: null }])
+
+    let entry: ChatEntry
+    try {
+      const response = await request<AskResponse>('/api/ask', {
+        method: 'POST',
+        body: JSON.stringify({ question: text, days }),
+      })
+      entry = { question: text, response, error: null }
+    } catch (e: unknown) {
+      entry = { question: text, response: null, error: (e as Error).message }
+    }
+    setEntries((prev) => [...prev.slice(0, -1), entry])
+    setAsking(false)
+  }
+
+  if (!isReady) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Спросить каналы</h1>
+      </div>
+
+      {entries.length === 0 && (
+        <p style={{ fontSize: 13, opacity: 0.7, marginTop: 0, marginBottom: 16 }}>
+          Задайте вопрос — ответ соберётся из сообщений ваших каналов со ссылками на оригиналы. Например:
+          «что писали о новом налоговом законе?»
+        </p>
+      )}
+
+      {entries.map((entry, i) => (
+        <div key={i} style={{ marginBottom: 16 }}>
+          <div style={{ marginLeft: 'auto', maxWidth: '85%', width: 'fit-content', padding: '8px 12px', borderRadius: 12, background: 'var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-text-color, #fff)', fontSize: 14, marginBottom: 8 }}>
+            {entry.question}
+          </div>
+          <div style={{ maxWidth: '90%', padding: '10px 12px', borderRadius: 12, background: 'var(--tg-theme-secondary-bg-color, #f5f5f5)', fontSize: 14, lineHeight: 1.5 }}>
+            {entry.error && <span style={{ color: 'red' }}>{entry.error}</span>}
+            {!entry.error && !entry.response && <span style={{ opacity: 0.6 }}>Ищу в ваших каналах...</span>}
+            {entry.response && (
+              <>
+                <div style={{ whiteSpace: 'pre-wrap' }}>
+                  <Answer text={entry.response.answer} sources={entry.response.sources} />
+                </div>
+                {entry.response.sources.length > 0 && (
+                  <ol style={{ margin: '10px 0 0', paddingLeft: 20, fontSize: 12, opacity: 0.8 }}>
+                    {entry.response.sources.map((s) => (
+                      <li key={s.messageId} style={{ marginBottom: 4 }}>
+                        <a href={s.link} target="_blank" rel="noreferrer" style={{ color: 'var(--tg-theme-link-color, #2481cc)', textDecoration: 'none' }}>
+                          {s.channelTitle}
+                        </a>
+                        {', '}{new Date(s.postedAt).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' })}
+                        {s.summary && ` — ${s.summary}`}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+        {PERIODS.map((p) => (
+          <button
+            key={p.days}
+            onClick={() => setDays(p.days)}
+            style={{ padding: '4px 10px', borderRadius: 14, fontSize: 13, cursor: 'pointer', border: '1px solid var(--tg-theme-button-color, #2481cc)', background: days === p.days ? 'var(--tg-theme-button-color, #2481cc)' : 'none', color: days === p.days ? 'var(--tg-theme-button-text-color, #fff)' : 'var(--tg-theme-button-color, #2481cc)' }}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
+          placeholder="Ваш вопрос"
+          maxLength={500}
+          style={{ width: '100%', padding: '10px 12px', borderRadius: 8, border: '1px solid var(--tg-theme-hint-color, #ccc)', fontSize: 15, boxSizing: 'border-box', background: 'var(--tg-theme-bg-color, #fff)', color: 'var(--tg-theme-text-color, #000)' }}
+        />
+        <button
+          onClick={handleAsk}
+          disabled={asking || question.trim().length < 3}
+          style={{ padding: '10px 14px', background: 'var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-text-color, #fff)', border: 'none', borderRadius: 8, fontSize: 14, cursor: 'pointer', opacity: asking || question.trim().length < 3 ? 0.6 : 1 }}
+        >
+          {asking ? '...' : 'Спросить'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { FilteredMessagesResponse, FilterReason } from '@/types/api'
+
+const REASON_LABELS: Record<FilterReason, string> = {
+  TOO_SHORT: 'Слишком короткий',
+  URL_ONLY: 'Только ссылка',
+  AD_KEYWORDS: 'Похоже на рекламу',
+  AD_TEMPLATE: 'Повторяющаяся реклама',
+  EMOJI_SPAM: 'Много эмодзи',
+}
+
+export default function FilteredMessagesPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [data, setData] = useState<FilteredMessagesResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    request<FilteredMessagesResponse>(`/api/channels/${params.id}/filtered`)
+      .then(setData)
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [isReady, initData, request, params.id])
+
+  async function rescue(messageId: number) {
+    try {
+      await request(`/api/channels/${params.id}/filtered`, {
+        method: 'POST',
+        body: JSON.stringify({ messageId }),
+      })
+      setData((prev) => prev ? { ...prev, messages: prev.messages.filter((m) => m.messageId !== messageId) } : prev)
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  async function toggleExemption(reason: FilterReason) {
+    if (!data) return
+    const exemptions = data.settings.exemptions.includes(reason)
+      ? data.settings.exemptions.filter((r) => r !== reason)
+      : [...data.settings.exemptions, reason]
+    try {
+      await request(`/api/channels/${params.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ filterExemptions: exemptions }),
+      })
+      setData({ ...data, settings: { ...data.settings, exemptions } })
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  if (!isReady || loading) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  if (error || !data) {
+    return <div style={{ padding: 20, color: 'red' }}>Ошибка: {error ?? 'Канал не найден'}</div>
+  }
+
+  const { settings, messages } = data
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Отфильтрованные посты</h1>
+      </div>
+
+      <div style={{ marginBottom: 24 }}>
+        <div style={{ fontSize: 13, fontWeight: 700, opacity: 0.7, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 8 }}>
+          Фильтры для канала
+        </div>
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {(Object.keys(REASON_LABELS) as FilterReason[]).map((reason) => {
+            const globallyDisabled = settings.defaults.disabled.includes(reason)
+            return (
+              <li key={reason} style={{ padding: '8px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 12, cursor: globallyDisabled ? 'default' : 'pointer', opacity: globallyDisabled ? 0.5 : 1 }}>
+                  <input
+                    type="checkbox"
+                    checked={!globallyDisabled && !settings.exemptions.includes(reason)}
+                    disabled={globallyDisabled}
+                    onChange={() => toggleExemption(reason)}
+                    style={{ width: 18, height: 18, cursor: 'pointer', accentColor: 'var(--tg-theme-button-color, #2481cc)', flexShrink: 0 }}
+                  />
+                  <span>{REASON_LABELS[reason]}{globallyDisabled ? ' (выключен для всех)' : ''}</span>
+                </label>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+
+      <div style={{ fontSize: 13, fontWeight: 700, opacity: 0.7, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 8 }}>
+        За последнюю неделю ({messages.length})
+      </div>
+      {messages.length === 0 ? (
+        <div style={{ fontSize: 13, opacity: 0.5, padding: '8px 0' }}>Ничего не отфильтровано.</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {messages.map((m) => (
+            <li key={m.messageId} style={{ padding: '10px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+              <div style={{ fontSize: 12, opacity: 0.6, marginBottom: 4 }}>
+                {new Date(m.postedAt).toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                {m.reason && ` · ${REASON_LABELS[m.reason]}`}
+              </div>
+              <a href={m.link} target="_blank" rel="noreferrer" style={{ display: 'block', fontSize: 14, lineHeight: 1.5, color: 'inherit', textDecoration: 'none', marginBottom: 6 }}>
+                {m.text.slice(0, 300) || '(без текста)'}
+              </a>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button
+                  onClick={() => rescue(m.messageId)}
+                  style={{ background: 'none', border: '1px solid var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-color, #2481cc)', cursor: 'pointer', fontSize: 13, padding: '4px 10px', borderRadius: 6 }}
+                >
+                  Вернуть в дайджест
+                </button>
+                {m.reason && !settings.exemptions.includes(m.reason) && (
+                  <button
+                    onClick={() => m.reason && toggleExemption(m.reason)}
+                    style={{ background: 'none', border: 'none', color: 'var(--tg-theme-hint-color, #888)', cursor: 'pointer', fontSize: 13, padding: '4px 0' }}
+                  >
+                    Не применять это правило к каналу
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { ChannelDetail } from '@/types/api'
+
+const SNOOZE_OPTIONS = [
+  { label: '1 день', days: 1 },
+  { label: '3 дня', days: 3 },
+  { label: 'Неделю', days: 7 },
+]
+
+const KIND_LABELS: Record<ChannelDetail['kind'], string> = {
+  BROADCAST: '📢 Канал',
+  MEGAGROUP: '💬 Группа',
+  FORUM: '🗂 Форум',
+}
+
+export default function ChannelDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [channel, setChannel] = useState<ChannelDetail | null>(null)
+  const [topicIds, setTopicIds] = useState<number[]>([])
+  const [weight, setWeight] = useState(1)
+  const [minImportanceScore, setMinImportanceScore] = useState<number | null>(null)
+  const [includeAll, setIncludeAll] = useState(false)
+  const [snoozedUntil, setSnoozedUntil] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    request<ChannelDetail>(`/api/channels/${params.id}`)
+      .then((ch) => {
+        setChannel(ch)
+        setTopicIds(ch.topicIds)
+        setWeight(ch.weight)
+        setMinImportanceScore(ch.minImportanceScore)
+        setIncludeAll(ch.includeAll)
+        setSnoozedUntil(ch.snoozedUntil)
+      })
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [isReady, initData, request, params.id])
+
+  function toggleTopic(topicId: number) {
+    setTopicIds((prev) => prev.includes(topicId) ? prev.filter((id) => id !== topicId) : [...prev, topicId])
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setSaved(false)
+    try {
+      await request(`/api/channels/${params.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ topicIds, weight, minImportanceScore, includeAll, snoozedUntil }),
+      })
+      setSaved(true)
+      setTimeout(() => setSaved(false), 2000)
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  function snoozeFor(days: number) {
+    setSnoozedUntil(new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString())
+  }
+
+  if (!isReady || loading) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  if (error || !channel) {
+    return <div style={{ padding: 20, color: 'red' }}>Ошибка: {error ?? 'Канал не найден'}</div>
+  }
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 20 }}>{channel.title}</h1>
+      </div>
+
+      <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 8 }}>
+        {KIND_LABELS[channel.kind]}{channel.username ? ` · @${channel.username}` : ''}
+      </div>
+
+      {channel.adStats.total > 0 && (
+        <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 8 }}>
+          Реклама за 30 дней: {Math.round((channel.adStats.ads / channel.adStats.total) * 100)}% ({channel.adStats.ads} из {channel.adStats.total})
+          {channel.adStats.templates > 0 && ` · рекламных шаблонов: ${channel.adStats.templates}`}
+        </div>
+      )}
+
+      <Link href={`/mini-app/channels/${params.id}/filtered`} style={{ display: 'block', fontSize: 14, color: 'var(--tg-theme-link-color, #2481cc)', textDecoration: 'none', marginBottom: 24 }}>
+        🧹 Отфильтрованные посты →
+      </Link>
+
+      {channel.kind === 'FORUM' && (
+        <div style={{ marginBottom: 24 }}>
+          <div style={{ fontSize: 13, fontWeight: 700, opacity: 0.7, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 4 }}>
+            Темы форума
+          </div>
+          <div style={{ fontSize: 13, opacity: 0.6, marginBottom: 8 }}>
+            Отметьте темы, которые нужно включать в дайджест. Если ничего не выбрано — учитываются все темы.
+          </div>
+          {channel.topics.length === 0 ? (
+            <div style={{ fontSize: 13, opacity: 0.5, padding: '8px 0' }}>Список тем пока не загружен.</div>
+          ) : (
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+              {channel.topics.map((topic) => (
+                <li key={topic.topicId} style={{ padding: '10px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 12, cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={topicIds.includes(topic.topicId)}
+                      onChange={() => toggleTopic(topic.topicId)}
+                      style={{ width: 18, height: 18, cursor: 'pointer', accentColor: 'var(--tg-theme-button-color, #2481cc)', flexShrink: 0 }}
+                    />
+                    <span>{topic.title}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div style={{ marginBottom: 24 }}>
+        <div style={{ fontSize: 13, fontWeight: 700, opacity: 0.7, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 8 }}>
+          В дайджесте
+        </div>
+
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13, opacity: 0.7, marginBottom: 6 }}>
+            <span>Вес канала</span>
+            <span style={{ fontWeight: 700, opacity: 1 }}>×{weight}</span>
+          </label>
+          <input
+            type="range"
+            min={0.25}
+            max={3}
+            step={0.25}
+            value={weight}
+            onChange={(e) => setWeight(Number(e.target.value))}
+            style={{ width: '100%', accentColor: 'var(--tg-theme-button-color, #2481cc)' }}
+          />
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, opacity: 0.5, marginTop: 2 }}>
+            <span>шумный источник</span>
+            <span>надёжный источник</span>
+          </div>
+        </div>
+
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13, opacity: 0.7, marginBottom: 6 }}>
+            <span>Минимальная оценка для этого канала</span>
+            <span style={{ fontWeight: 700, opacity: 1 }}>{minImportanceScore === null ? 'как в группе' : `${minImportanceScore}+`}</span>
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={10}
+            step={1}
+            value={minImportanceScore ?? 0}
+            onChange={(e) => setMinImportanceScore(Number(e.target.value) || null)}
+            style={{ width: '100%', accentColor: 'var(--tg-theme-button-color, #2481cc)' }}
+          />
+        </div>
+
+        <div style={{ marginBottom: 16, padding: '12px 14px', background: 'var(--tg-theme-secondary-bg-color, #f5f5f5)', borderRadius: 10 }}>
+          <label style={{ display: 'flex', alignItems: 'flex-start', gap: 12, cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={includeAll}
+              onChange={(e) => setIncludeAll(e.target.checked)}
+              style={{ marginTop: 2, width: 18, height: 18, cursor: 'pointer', accentColor: 'var(--tg-theme-button-color, #2481cc)', flexShrink: 0 }}
+            />
+            <div>
+              <div style={{ fontSize: 14, fontWeight: 600 }}>Включать все посты</div>
+              <div style={{ fontSize: 12, opacity: 0.6, marginTop: 3 }}>
+                Для редких, но важных каналов: каждый пост попадёт в дайджест независимо от оценки и лимитов.
+              </div>
+            </div>
+          </label>
+        </div>
+
+        <div>
+          <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 6 }}>
+            {snoozedUntil && new Date(snoozedUntil) > new Date()
+              ? `🔕 Отключён до ${new Date(snoozedUntil).toLocaleString('ru-RU', { day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' })}`
+              : 'Временно отключить'}
+          </div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            {SNOOZE_OPTIONS.map((option) => (
+              <button
+                key={option.days}
+                onClick={() => snoozeFor(option.days)}
+                style={{ flex: 1, padding: '8px', background: 'var(--tg-theme-secondary-bg-color, #f0f0f0)', border: 'none', borderRadius: 8, cursor: 'pointer', fontSize: 13, color: 'inherit' }}
+              >
+                {option.label}
+              </button>
+            ))}
+            {snoozedUntil && (
+              <button
+                onClick={() => setSnoozedUntil(null)}
+                style={{ flex: 1, padding: '8px', background: 'none', border: '1px solid var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-color, #2481cc)', borderRadius: 8, cursor: 'pointer', fontSize: 13 }}
+              >
+                Включить
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {saved && <div style={{ marginBottom: 12, color: 'green', fontSize: 14 }}>✓ Сохранено</div>}
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        style={{
+          width: '100%',
+          padding: '12px',
+          background: 'var(--tg-theme-button-color, #2481cc)',
+          color: 'var(--tg-theme-button-text-color, #fff)',
+          border: 'none',
+          borderRadius: 8,
+          fontSize: 16,
+          cursor: saving ? 'wait' : 'pointer',
+          opacity: saving ? 0.6 : 1,
+        }}
+      >
+        {saving ? 'Сохранение...' : 'Сохранить'}
+      </button>
+    </div>
+  )
+}
@@ -45,13 +45,16 @@ export default function AddChannelPage() {
 
       <form onSubmit={handleSubmit}>
         <label style={{ display: 'block', marginBottom: 8, fontWeight: 500 }}>
-          Username или ссылка на канал
+          Username или ссылка на канал или группу
         </label>
+        <div style={{ fontSize: 13, opacity: 0.6, marginBottom: 8 }}>
+          Для приватного канала вставьте ссылку-приглашение — бот вступит в него автоматически.
+        </div>
         <input
           type="text"
           value={identifier}
           onChange={(e) => setIdentifier(e.target.value)}
-          placeholder="@channelname или https://t.me/channelname"
+          placeholder="@channelname, https://t.me/channelname или https://t.me/+AbCdEf"
           disabled={loading}
           style={{
             width: '100%',
@@ -85,7 +88,7 @@ export default function AddChannelPage() {
             opacity: loading || !identifier.trim() ? 0.6 : 1,
           }}
         >
-          {loading ? 'Поиск...' : 'Добавить'}
+          {loading ? 'Подключаемся...' : 'Добавить'}
         </button>
       </form>
     </div>
@@ -1,10 +1,27 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useTelegramAuth } from '@/hooks/useTelegramAuth'
 import { useApi } from '@/hooks/useApi'
-import type { DigestDetail } from '@/types/api'
+import { formatMediaLabel } from '@/lib/media'
+import type { DigestDetail, StoryStatus } from '@/types/api'
+
+const STORY_STATUS_BADGES: Partial<Record<StoryStatus, { label: string; color: string; background: string }>> = {
+  UPDATE: { label: '🔄 развитие истории', color: '#1565c0', background: 'rgba(21, 101, 192, 0.1)' },
+  COVERED: { label: '↩️ уже было', color: '#6d6d6d', background: 'rgba(109, 109, 109, 0.1)' },
+}
+
+function StoryBadge({ status }: { status: StoryStatus | null }) {
+  const badge = status ? STORY_STATUS_BADGES[status] : undefined
+  if (!badge) return null
+  return (
+    <span style={{ marginLeft: 8, padding: '1px 6px', borderRadius: 4, fontSize: 11, fontWeight: 500, color: badge.color, background: badge.background }}>
+      {badge.label}
+    </span>
+  )
+}
 
 export default function DigestDetailPage({ params }: { params: { id: string } }) {
   const router = useRouter()
@@ -49,11 +66,32 @@ export default function DigestDetailPage({ params }: { params: { id: string } })
         {digest.messages.map((msg) => (
           <li key={msg.messageId} style={{ marginBottom: 16, paddingBottom: 16, borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
             <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 4 }}>
-              <span style={{ fontWeight: 600, fontSize: 13 }}>{msg.rank}. [{msg.category ?? 'other'}]</span>
+              <span style={{ fontWeight: 600, fontSize: 13 }}>
+                {msg.rank}. [{msg.category ?? 'other'}]
+                {msg.deletedAt && (
+                  <span style={{ marginLeft: 8, padding: '1px 6px', borderRadius: 4, fontSize: 11, fontWeight: 500, color: '#c62828', background: 'rgba(198, 40, 40, 0.1)' }}>
+                    🗑 удалено источником
+                  </span>
+                )}
+                <StoryBadge status={msg.storyStatus} />
+              </span>
               <span style={{ fontSize: 12, opacity: 0.6 }}>⭐ {msg.importanceScore?.toFixed(1) ?? '—'}</span>
             </div>
-            <div style={{ fontSize: 12, opacity: 0.6, marginBottom: 6 }}>{msg.channelTitle}{msg.channelUsername ? ` @${msg.channelUsername}` : ''}</div>
+            <div style={{ fontSize: 12, opacity: 0.6, marginBottom: 6 }}>
+              {msg.channelTitle}{msg.channelUsername ? ` @${msg.channelUsername}` : ''}
+              {msg.mediaType && ` · ${formatMediaLabel(msg.mediaType, msg.mediaCount)}`}
+            </div>
             <div style={{ fontSize: 14, lineHeight: 1.5 }}>{msg.summary ?? msg.text.slice(0, 200)}</div>
+            {msg.editedAfterDigest && msg.editedAt && (
+              <div style={{ fontSize: 12, color: 'var(--tg-theme-hint-color, #888)', marginTop: 6 }}>
+                ✏️ Изменено автором после отправки дайджеста · {new Date(msg.editedAt).toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+              </div>
+            )}
+            {msg.storyThreadId !== null && msg.storyStatus !== 'NEW' && (
+              <Link href={`/mini-app/stories/${msg.storyThreadId}`} style={{ display: 'inline-block', marginTop: 6, fontSize: 12, color: 'var(--tg-theme-link-color, #2481cc)', textDecoration: 'none' }}>
+                📚 Хронология истории →
+              </Link>
+            )}
           </li>
         ))}
       </ul>
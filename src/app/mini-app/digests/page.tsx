@@ -13,6 +13,12 @@ const STATUS_LABELS: Record<string, string> = {
   FAILED: '❌ Ошибка',
 }
 
+const PERIOD_LABELS: Record<string, string> = {
+  DAILY: '',
+  WEEKLY: ' · итоги недели',
+  MONTHLY: ' · итоги месяца',
+}
+
 export default function DigestsPage() {
   const router = useRouter()
   const { initData, isReady } = useTelegramAuth()
@@ -60,7 +66,7 @@ export default function DigestsPage() {
                   href={`/mini-app/digests/${d.id}`}
                   style={{ display: 'block', padding: '12px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)', textDecoration: 'none', color: 'inherit' }}
                 >
-                  <div style={{ fontWeight: 600 }}>{date}</div>
+                  <div style={{ fontWeight: 600 }}>{date}{PERIOD_LABELS[d.period] ?? ''}</div>
                   <div style={{ fontSize: 13, opacity: 0.7, marginTop: 2 }}>
                     {STATUS_LABELS[d.status] ?? d.status} · {d.messageCount} новостей
                   </div>
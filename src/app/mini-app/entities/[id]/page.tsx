@@ -0,0 +1,122 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { EntityDetail, EntityType, WatchedEntityResponse } from '@/types/api'
+
+const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  PERSON: 'Персона',
+  ORGANIZATION: 'Организация',
+  PLACE: 'Место',
+  TICKER: 'Тикер',
+}
+
+export default function EntityPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [entity, setEntity] = useState<EntityDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    request<EntityDetail>(`/api/entities/${params.id}`)
+      .then(setEntity)
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [isReady, initData, request, params.id])
+
+  async function toggleWatch() {
+    if (!entity) return
+    try {
+      if (entity.watch) {
+        await request(`/api/watchlist/${entity.watch.id}`, { method: 'DELETE' })
+        setEntity({ ...entity, watch: null })
+      } else {
+        const watch = await request<WatchedEntityResponse>('/api/watchlist', {
+          method: 'POST',
+          body: JSON.stringify({ entityId: entity.id }),
+        })
+        setEntity({ ...entity, watch: { id: watch.id, notify: watch.notify } })
+      }
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  async function toggleNotify() {
+    if (!entity?.watch) return
+    const notify = !entity.watch.notify
+    try {
+      await request(`/api/watchlist/${entity.watch.id}`, { method: 'PATCH', body: JSON.stringify({ notify }) })
+      setEntity({ ...entity, watch: { ...entity.watch, notify } })
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  if (!isReady || loading) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  if (error || !entity) {
+    return <div style={{ padding: 20, color: 'red' }}>Ошибка: {error ?? 'Не найдено'}</div>
+  }
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 8 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 18 }}>{entity.type === 'TICKER' ? `$${entity.name}` : entity.name}</h1>
+      </div>
+
+      <div style={{ marginBottom: 16, fontSize: 13, opacity: 0.7 }}>
+        {ENTITY_TYPE_LABELS[entity.type]} · {entity.mentions.length} упоминаний в ваших каналах
+      </div>
+
+      <div style={{ display: 'flex', gap: 8, marginBottom: 20 }}>
+        <button
+          onClick={toggleWatch}
+          style={{ flex: 1, padding: '10px', borderRadius: 8, fontSize: 14, cursor: 'pointer', border: '1px solid var(--tg-theme-button-color, #2481cc)', background: entity.watch ? 'none' : 'var(--tg-theme-button-color, #2481cc)', color: entity.watch ? 'var(--tg-theme-button-color, #2481cc)' : 'var(--tg-theme-button-text-color, #fff)' }}
+        >
+          {entity.watch ? 'Не отслеживать' : '👁 Отслеживать'}
+        </button>
+        {entity.watch && (
+          <button
+            onClick={toggleNotify}
+            style={{ flex: 1, padding: '10px', borderRadius: 8, fontSize: 14, cursor: 'pointer', border: '1px solid var(--tg-theme-button-color, #2481cc)', background: 'none', color: 'var(--tg-theme-button-color, #2481cc)' }}
+          >
+            {entity.watch.notify ? '🔔 Уведомления включены' : '🔕 Только в дайджесте'}
+          </button>
+        )}
+      </div>
+
+      {entity.mentions.length === 0 ? (
+        <div style={{ fontSize: 13, opacity: 0.5 }}>Пока нет упоминаний.</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0, borderLeft: '2px solid var(--tg-theme-hint-color, #ccc)' }}>
+          {entity.mentions.map((item) => (
+            <li key={item.messageId} style={{ position: 'relative', marginBottom: 16, paddingLeft: 14 }}>
+              <span style={{ position: 'absolute', left: -6, top: 4, width: 10, height: 10, borderRadius: '50%', background: 'var(--tg-theme-hint-color, #ccc)' }} />
+              <div style={{ fontSize: 12, opacity: 0.6, marginBottom: 4 }}>
+                {formatDate(item.postedAt)} · {item.channelTitle}
+                {item.importanceScore !== null && ` · ⭐ ${item.importanceScore.toFixed(1)}`}
+              </div>
+              <div style={{ fontSize: 14, lineHeight: 1.5 }}>{item.summary ?? item.text.slice(0, 200)}</div>
+              <a href={item.link} target="_blank" rel="noreferrer" style={{ fontSize: 12, color: 'var(--tg-theme-link-color, #2481cc)', textDecoration: 'none' }}>
+                оригинал →
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { EntityResponse, EntityType, WatchedEntityResponse } from '@/types/api'
+
+const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  PERSON: '👤 Персона',
+  ORGANIZATION: '🏢 Организация',
+  PLACE: '📍 Место',
+  TICKER: '📈 Тикер',
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: 8,
+  border: '1px solid var(--tg-theme-hint-color, #ccc)',
+  fontSize: 15,
+  boxSizing: 'border-box' as const,
+  background: 'var(--tg-theme-bg-color, #fff)',
+  color: 'var(--tg-theme-text-color, #000)',
+}
+
+function displayName(entity: { type: EntityType; name: string }): string {
+  return entity.type === 'TICKER' ? `$${entity.name}` : entity.name
+}
+
+export default function WatchlistPage() {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [watchlist, setWatchlist] = useState<WatchedEntityResponse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [query, setQuery] = useState('')
+  const [type, setType] = useState<EntityType>('ORGANIZATION')
+  const [results, setResults] = useState<EntityResponse[] | null>(null)
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    request<WatchedEntityResponse[]>('/api/watchlist')
+      .then(setWatchlist)
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [isReady, initData, request])
+
+  async function handleSearch() {
+    if (query.trim().length < 2) return
+    setSearching(true)
+    try {
+      setResults(await request<EntityResponse[]>(`/api/entities?q=${encodeURIComponent(query.trim())}`))
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  async function watch(body: { entityId: number } | { type: EntityType; name: string }) {
+    try {
+      const added = await request<WatchedEntityResponse>('/api/watchlist', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+      setWatchlist((prev) => prev.some((w) => w.id === added.id) ? prev : [...prev, added])
+      setQuery('')
+      setResults(null)
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  async function toggleNotify(item: WatchedEntityResponse) {
+    try {
+      await request(`/api/watchlist/${item.id}`, { method: 'PATCH', body: JSON.stringify({ notify: !item.notify }) })
+      setWatchlist((prev) => prev.map((w) => w.id === item.id ? { ...w, notify: !w.notify } : w))
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  async function unwatch(watchId: number) {
+    try {
+      await request(`/api/watchlist/${watchId}`, { method: 'DELETE' })
+      setWatchlist((prev) => prev.filter((w) => w.id !== watchId))
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  if (!isReady || loading) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  if (error) {
+    return <div style={{ padding: 20, color: 'red' }}>Ошибка: {error}</div>
+  }
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Отслеживаемое</h1>
+      </div>
+
+      <p style={{ fontSize: 13, opacity: 0.7, marginTop: 0, marginBottom: 16 }}>
+        Упоминания компаний, людей, мест и тикеров собираются в отдельный раздел дайджеста. С включёнными
+        уведомлениями бот пришлёт сообщение сразу после появления новости.
+      </p>
+
+      {watchlist.length === 0 ? (
+        <div style={{ fontSize: 13, opacity: 0.5, padding: '8px 0', marginBottom: 16 }}>Список пуст.</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: '0 0 16px', padding: 0 }}>
+          {watchlist.map((item) => (
+            <li key={item.id} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '10px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+              <Link href={`/mini-app/entities/${item.entityId}`} style={{ flex: 1, color: 'inherit', textDecoration: 'none' }}>
+                <div style={{ fontWeight: 600 }}>{displayName(item)}</div>
+                <div style={{ fontSize: 12, opacity: 0.6 }}>
+                  {ENTITY_TYPE_LABELS[item.type]} · {item.recentMentions} за неделю
+                </div>
+              </Link>
+              <button
+                onClick={() => toggleNotify(item)}
+                title={item.notify ? 'Уведомления включены' : 'Только в дайджесте'}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 18, padding: 4 }}
+              >
+                {item.notify ? '🔔' : '🔕'}
+              </button>
+              <button
+                onClick={() => unwatch(item.id)}
+                style={{ background: 'none', border: 'none', color: 'red', cursor: 'pointer', fontSize: 18, padding: 4 }}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div style={{ padding: '12px 14px', background: 'var(--tg-theme-secondary-bg-color, #f5f5f5)', borderRadius: 10 }}>
+        <div style={{ fontSize: 14, fontWeight: 600, marginBottom: 12 }}>Добавить</div>
+
+        <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setResults(null)
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            placeholder="Например: Сбербанк или $AAPL"
+            style={inputStyle}
+          />
+          <button
+            onClick={handleSearch}
+            disabled={searching || query.trim().length < 2}
+            style={{ padding: '10px 14px', background: 'var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-text-color, #fff)', border: 'none', borderRadius: 8, fontSize: 14, cursor: 'pointer', opacity: searching || query.trim().length < 2 ? 0.6 : 1 }}
+          >
+            {searching ? '...' : 'Найти'}
+          </button>
+        </div>
+
+        {results && (
+          <>
+            {results.length > 0 && (
+              <ul style={{ listStyle: 'none', margin: '0 0 12px', padding: 0 }}>
+                {results.map((entity) => (
+                  <li key={entity.id} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '8px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+                    <div style={{ flex: 1 }}>
+                      <div style={{ fontWeight: 600 }}>{displayName(entity)}</div>
+                      <div style={{ fontSize: 12, opacity: 0.6 }}>{ENTITY_TYPE_LABELS[entity.type]} · {entity.mentionCount} упоминаний</div>
+                    </div>
+                    <button
+                      onClick={() => watch({ entityId: entity.id })}
+                      disabled={watchlist.some((w) => w.entityId === entity.id)}
+                      style={{ background: 'none', border: '1px solid var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-color, #2481cc)', cursor: 'pointer', fontSize: 13, padding: '4px 10px', borderRadius: 6 }}
+                    >
+                      {watchlist.some((w) => w.entityId === entity.id) ? '✓' : 'Следить'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 8 }}>
+              {results.length === 0 ? 'Пока не упоминалось. Можно начать отслеживать заранее:' : 'Нет нужного? Добавьте вручную:'}
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <select value={type} onChange={(e) => setType(e.target.value as EntityType)} style={{ ...inputStyle, flex: 1 }}>
+                {(Object.keys(ENTITY_TYPE_LABELS) as EntityType[]).map((t) => (
+                  <option key={t} value={t}>{ENTITY_TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => watch({ type, name: query.trim() })}
+                style={{ padding: '10px 14px', background: 'none', border: '1px solid var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-color, #2481cc)', borderRadius: 8, fontSize: 14, cursor: 'pointer' }}
+              >
+                Следить за «{query.trim()}»
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useTelegramAuth } from '@/hooks/useTelegramAuth'
 import { useApi } from '@/hooks/useApi'
-import type { ChannelResponse } from '@/types/api'
+import type { ChannelResponse, DigestPeriod } from '@/types/api'
 
 interface GroupDetail {
   id: number
@@ -14,10 +14,34 @@ interface GroupDetail {
   maxMessages: number
   minImportanceScore: number
   analyticsOnly: boolean
+  maxPerChannel: number
+  maxPerCategory: number
+  digestPeriod: DigestPeriod | null
+  digestWeekday: number
+  digestMonthDay: number
   channelCount: number
   channels: ChannelResponse[]
 }
 
+const PERIOD_LABELS: Record<DigestPeriod, string> = {
+  DAILY: 'Каждый день',
+  WEEKLY: 'Раз в неделю — итоги недели',
+  MONTHLY: 'Раз в месяц — итоги месяца',
+}
+
+const WEEKDAYS = ['понедельник', 'вторник', 'среда', 'четверг', 'пятница', 'суббота', 'воскресенье']
+
+const selectStyle = {
+  width: '100%',
+  padding: '8px 10px',
+  borderRadius: 8,
+  border: '1px solid var(--tg-theme-hint-color, #ccc)',
+  fontSize: 14,
+  boxSizing: 'border-box' as const,
+  background: 'var(--tg-theme-bg-color, #fff)',
+  color: 'var(--tg-theme-text-color, #000)',
+}
+
 export default function GroupDetailPage({ params }: { params: { id: string } }) {
   const { initData, isReady } = useTelegramAuth()
   const { request } = useApi(initData)
@@ -33,6 +57,11 @@ export default function GroupDetailPage({ params }: { params: { id: string } })
   const [maxMessages, setMaxMessages] = useState(30)
   const [minImportanceScore, setMinImportanceScore] = useState(1)
   const [analyticsOnly, setAnalyticsOnly] = useState(true)
+  const [maxPerChannel, setMaxPerChannel] = useState(5)
+  const [maxPerCategory, setMaxPerCategory] = useState(10)
+  const [digestPeriod, setDigestPeriod] = useState<DigestPeriod | null>(null)
+  const [digestWeekday, setDigestWeekday] = useState(1)
+  const [digestMonthDay, setDigestMonthDay] = useState(1)
   const [saving, setSaving] = useState(false)
   const [deleting, setDeleting] = useState(false)
   const [savedMsg, setSavedMsg] = useState(false)
@@ -50,6 +79,11 @@ export default function GroupDetailPage({ params }: { params: { id: string } })
         setMaxMessages(g.maxMessages ?? 30)
         setMinImportanceScore(g.minImportanceScore ?? 1)
         setAnalyticsOnly(g.analyticsOnly ?? true)
+        setMaxPerChannel(g.maxPerChannel ?? 5)
+        setMaxPerCategory(g.maxPerCategory ?? 10)
+        setDigestPeriod(g.digestPeriod)
+        setDigestWeekday(g.digestWeekday)
+        setDigestMonthDay(g.digestMonthDay)
         setAllChannels(ch)
       })
       .catch((e: Error) => setError(e.message))
@@ -62,9 +96,9 @@ export default function GroupDetailPage({ params }: { params: { id: string } })
     try {
       await request(`/api/groups/${groupId}`, {
         method: 'PATCH',
-        body: JSON.stringify({ name: name.trim(), aiPrompt: aiPrompt.trim() || null, maxMessages, minImportanceScore, analyticsOnly }),
+        body: JSON.stringify({ name: name.trim(), aiPrompt: aiPrompt.trim() || null, maxMessages, minImportanceScore, analyticsOnly, maxPerChannel, maxPerCategory, digestPeriod, digestWeekday, digestMonthDay }),
       })
-      setGroup((prev) => prev ? { ...prev, name: name.trim(), aiPrompt: aiPrompt.trim() || null, maxMessages, minImportanceScore, analyticsOnly } : prev)
+      setGroup((prev) => prev ? { ...prev, name: name.trim(), aiPrompt: aiPrompt.trim() || null, maxMessages, minImportanceScore, analyticsOnly, maxPerChannel, maxPerCategory, digestPeriod, digestWeekday, digestMonthDay } : prev)
       setSavedMsg(true)
       setTimeout(() => setSavedMsg(false), 3000)
     } catch (e: unknown) {
@@ -202,6 +236,74 @@ export default function GroupDetailPage({ params }: { params: { id: string } })
         )}
       </div>
 
+      {/* Diversity caps */}
+      <div style={{ marginBottom: 16 }}>
+        <label style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13, opacity: 0.7, marginBottom: 6 }}>
+          <span>Максимум новостей из одного канала</span>
+          <span style={{ fontWeight: 700, opacity: 1 }}>{maxPerChannel}</span>
+        </label>
+        <input
+          type="range"
+          min={1}
+          max={30}
+          step={1}
+          value={maxPerChannel}
+          onChange={(e) => setMaxPerChannel(Number(e.target.value))}
+          style={{ width: '100%', accentColor: 'var(--tg-theme-button-color, #2481cc)' }}
+        />
+      </div>
+
+      <div style={{ marginBottom: 16 }}>
+        <label style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13, opacity: 0.7, marginBottom: 6 }}>
+          <span>Максимум новостей одной категории</span>
+          <span style={{ fontWeight: 700, opacity: 1 }}>{maxPerCategory}</span>
+        </label>
+        <input
+          type="range"
+          min={1}
+          max={50}
+          step={1}
+          value={maxPerCategory}
+          onChange={(e) => setMaxPerCategory(Number(e.target.value))}
+          style={{ width: '100%', accentColor: 'var(--tg-theme-button-color, #2481cc)' }}
+        />
+        <div style={{ fontSize: 12, color: 'var(--tg-theme-hint-color, #888)', marginTop: 4 }}>
+          Если разнообразных новостей не хватает, дайджест дополняется сверх лимитов
+        </div>
+      </div>
+
+      {/* Schedule */}
+      <div style={{ marginBottom: 16 }}>
+        <label style={{ display: 'block', fontSize: 13, opacity: 0.7, marginBottom: 6 }}>Периодичность дайджеста</label>
+        <select
+          value={digestPeriod ?? ''}
+          onChange={(e) => setDigestPeriod((e.target.value || null) as DigestPeriod | null)}
+          style={selectStyle}
+        >
+          <option value="">Как в общих настройках</option>
+          {(Object.keys(PERIOD_LABELS) as DigestPeriod[]).map((p) => (
+            <option key={p} value={p}>{PERIOD_LABELS[p]}</option>
+          ))}
+        </select>
+        {digestPeriod === 'WEEKLY' && (
+          <select value={digestWeekday} onChange={(e) => setDigestWeekday(Number(e.target.value))} style={{ ...selectStyle, marginTop: 8 }}>
+            {WEEKDAYS.map((day, i) => (
+              <option key={day} value={i + 1}>{day}</option>
+            ))}
+          </select>
+        )}
+        {digestPeriod === 'MONTHLY' && (
+          <select value={digestMonthDay} onChange={(e) => setDigestMonthDay(Number(e.target.value))} style={{ ...selectStyle, marginTop: 8 }}>
+            {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+              <option key={day} value={day}>{day}-е число</option>
+            ))}
+          </select>
+        )}
+        <div style={{ fontSize: 12, color: 'var(--tg-theme-hint-color, #888)', marginTop: 4 }}>
+          Дайджест приходит в общее время из настроек. Итоги недели и месяца собирают главные истории периода
+        </div>
+      </div>
+
       {/* Analytics only toggle */}
       <div style={{ marginBottom: 20, padding: '12px 14px', background: 'var(--tg-theme-secondary-bg-color, #f5f5f5)', borderRadius: 10 }}>
         <label style={{ display: 'flex', alignItems: 'flex-start', gap: 12, cursor: 'pointer' }}>
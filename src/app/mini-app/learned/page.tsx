@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { LearnedWeightResponse } from '@/types/api'
+
+const SECTIONS: { dimension: LearnedWeightResponse['dimension']; title: string }[] = [
+  { dimension: 'channel', title: 'Каналы' },
+  { dimension: 'category', title: 'Категории' },
+  { dimension: 'topic', title: 'Темы форумов' },
+]
+
+function weightLabel(weight: number): { text: string; color: string } {
+  if (weight >= 0.3) return { text: '↑ чаще', color: 'green' }
+  if (weight <= -0.3) return { text: '↓ реже', color: 'red' }
+  return { text: '≈ без изменений', color: 'inherit' }
+}
+
+export default function LearnedPage() {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [weights, setWeights] = useState<LearnedWeightResponse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    request<LearnedWeightResponse[]>('/api/feedback')
+      .then(setWeights)
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [isReady, initData, request])
+
+  if (!isReady || loading) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  if (error) {
+    return <div style={{ padding: 20, color: 'red' }}>Ошибка: {error}</div>
+  }
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Что учтено из оценок</h1>
+      </div>
+
+      <div style={{ fontSize: 13, opacity: 0.6, marginBottom: 24 }}>
+        Ответьте на дайджест сообщением вида «+3 -7», чтобы оценить новости под этими номерами. Оценки за последние 90 дней поднимают или опускают похожие новости в следующих дайджестах.
+      </div>
+
+      {weights.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: 40, opacity: 0.6 }}>
+          <p>Оценок пока нет.</p>
+        </div>
+      ) : (
+        SECTIONS.map(({ dimension, title }) => {
+          const items = weights.filter((w) => w.dimension === dimension)
+          if (items.length === 0) return null
+          return (
+            <div key={dimension} style={{ marginBottom: 24 }}>
+              <div style={{ fontSize: 13, fontWeight: 700, opacity: 0.7, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 4 }}>
+                {title}
+              </div>
+              <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                {items.map((w) => {
+                  const label = weightLabel(w.weight)
+                  return (
+                    <li key={w.key} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, padding: '10px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+                      <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{w.label}</span>
+                      <span style={{ fontSize: 13, opacity: 0.7, flexShrink: 0 }}>👍 {w.up} · 👎 {w.down}</span>
+                      <span style={{ fontSize: 13, color: label.color, flexShrink: 0 }}>{label.text}</span>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -6,6 +6,27 @@ import { useTelegramAuth } from '@/hooks/useTelegramAuth'
 import { useApi } from '@/hooks/useApi'
 import type { ChannelResponse, GroupResponse } from '@/types/api'
 
+const KIND_ICONS: Record<ChannelResponse['kind'], string> = {
+  BROADCAST: '',
+  MEGAGROUP: '💬 ',
+  FORUM: '🗂 ',
+}
+
+function isSnoozed(ch: ChannelResponse): boolean {
+  return ch.snoozedUntil !== null && new Date(ch.snoozedUntil) > new Date()
+}
+
+function ChannelBadges({ channel }: { channel: ChannelResponse }) {
+  const badges = [
+    isSnoozed(channel) && `🔕 до ${new Date(channel.snoozedUntil as string).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' })}`,
+    channel.includeAll && '📌 все посты',
+    channel.weight !== 1 && `×${channel.weight}`,
+    channel.minImportanceScore !== null && `⭐ ${channel.minImportanceScore}+`,
+  ].filter(Boolean)
+  if (badges.length === 0) return null
+  return <div style={{ fontSize: 12, opacity: 0.6 }}>{badges.join(' · ')}</div>
+}
+
 export default function ChannelsPage() {
   const { initData, isReady } = useTelegramAuth()
   const { request } = useApi(initData)
@@ -40,6 +61,19 @@ export default function ChannelsPage() {
     }
   }
 
+  async function toggleSnooze(channel: ChannelResponse) {
+    const snoozedUntil = isSnoozed(channel) ? null : new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+    try {
+      await request(`/api/channels/${channel.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ snoozedUntil }),
+      })
+      setChannels((prev) => prev.map((c) => c.id === channel.id ? { ...c, snoozedUntil } : c))
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
   async function handleSendNow() {
     setSendingDigest(true)
     setDigestError(null)
@@ -110,16 +144,26 @@ export default function ChannelsPage() {
                 <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
                   {groupChannels.map((ch) => (
                     <li key={ch.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '10px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
-                      <div>
-                        <div style={{ fontWeight: 600 }}>{ch.title}</div>
+                      <Link href={`/mini-app/channels/${ch.id}`} style={{ textDecoration: 'none', color: 'inherit' }}>
+                        <div style={{ fontWeight: 600 }}>{KIND_ICONS[ch.kind]}{ch.title}</div>
                         {ch.username && <div style={{ fontSize: 12, opacity: 0.6 }}>@{ch.username}</div>}
+                        <ChannelBadges channel={ch} />
+                      </Link>
+                      <div style={{ display: 'flex', gap: 4 }}>
+                        <button
+                          onClick={() => toggleSnooze(ch)}
+                          title={isSnoozed(ch) ? 'Включить' : 'Отключить на сутки'}
+                          style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 18, padding: 4 }}
+                        >
+                          {isSnoozed(ch) ? '🔔' : '🔕'}
+                        </button>
+                        <button
+                          onClick={() => removeChannel(ch.id)}
+                          style={{ background: 'none', border: 'none', color: 'red', cursor: 'pointer', fontSize: 18, padding: 4 }}
+                        >
+                          ✕
+                        </button>
                       </div>
-                      <button
-                        onClick={() => removeChannel(ch.id)}
-                        style={{ background: 'none', border: 'none', color: 'red', cursor: 'pointer', fontSize: 18, padding: 4 }}
-                      >
-                        ✕
-                      </button>
                     </li>
                   ))}
                 </ul>
@@ -138,16 +182,26 @@ export default function ChannelsPage() {
               <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
                 {ungroupedChannels.map((ch) => (
                   <li key={ch.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '12px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
-                    <div>
-                      <div style={{ fontWeight: 600 }}>{ch.title}</div>
+                    <Link href={`/mini-app/channels/${ch.id}`} style={{ textDecoration: 'none', color: 'inherit' }}>
+                      <div style={{ fontWeight: 600 }}>{KIND_ICONS[ch.kind]}{ch.title}</div>
                       {ch.username && <div style={{ fontSize: 12, opacity: 0.6 }}>@{ch.username}</div>}
+                      <ChannelBadges channel={ch} />
+                    </Link>
+                    <div style={{ display: 'flex', gap: 4 }}>
+                      <button
+                        onClick={() => toggleSnooze(ch)}
+                        title={isSnoozed(ch) ? 'Включить' : 'Отключить на сутки'}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 18, padding: 4 }}
+                      >
+                        {isSnoozed(ch) ? '🔔' : '🔕'}
+                      </button>
+                      <button
+                        onClick={() => removeChannel(ch.id)}
+                        style={{ background: 'none', border: 'none', color: 'red', cursor: 'pointer', fontSize: 18, padding: 4 }}
+                      >
+                        ✕
+                      </button>
                     </div>
-                    <button
-                      onClick={() => removeChannel(ch.id)}
-                      style={{ background: 'none', border: 'none', color: 'red', cursor: 'pointer', fontSize: 18, padding: 4 }}
-                    >
-                      ✕
-                    </button>
                   </li>
                 ))}
               </ul>
@@ -203,6 +257,24 @@ export default function ChannelsPage() {
           <Link href="/mini-app/digests" style={{ flex: 1, textAlign: 'center', padding: '10px', background: 'var(--tg-theme-secondary-bg-color, #f0f0f0)', borderRadius: 8, textDecoration: 'none', color: 'inherit', minWidth: 100 }}>
             📰 Дайджесты
           </Link>
+          <Link href="/mini-app/learned" style={{ flex: 1, textAlign: 'center', padding: '10px', background: 'var(--tg-theme-secondary-bg-color, #f0f0f0)', borderRadius: 8, textDecoration: 'none', color: 'inherit', minWidth: 100 }}>
+            🎯 Оценки
+          </Link>
+          <Link href="/mini-app/rules" style={{ flex: 1, textAlign: 'center', padding: '10px', background: 'var(--tg-theme-secondary-bg-color, #f0f0f0)', borderRadius: 8, textDecoration: 'none', color: 'inherit', minWidth: 100 }}>
+            🧩 Правила
+          </Link>
+          <Link href="/mini-app/alerts" style={{ flex: 1, textAlign: 'center', padding: '10px', background: 'var(--tg-theme-secondary-bg-color, #f0f0f0)', borderRadius: 8, textDecoration: 'none', color: 'inherit', minWidth: 100 }}>
+            🚨 Оповещения
+          </Link>
+          <Link href="/mini-app/entities" style={{ flex: 1, textAlign: 'center', padding: '10px', background: 'var(--tg-theme-secondary-bg-color, #f0f0f0)', borderRadius: 8, textDecoration: 'none', color: 'inherit', minWidth: 100 }}>
+            👁 Отслеживаемое
+          </Link>
+          <Link href="/mini-app/search" style={{ flex: 1, textAlign: 'center', padding: '10px', background: 'var(--tg-theme-secondary-bg-color, #f0f0f0)', borderRadius: 8, textDecoration: 'none', color: 'inherit', minWidth: 100 }}>
+            🔍 Поиск
+          </Link>
+          <Link href="/mini-app/ask" style={{ flex: 1, textAlign: 'center', padding: '10px', background: 'var(--tg-theme-secondary-bg-color, #f0f0f0)', borderRadius: 8, textDecoration: 'none', color: 'inherit', minWidth: 100 }}>
+            💬 Спросить
+          </Link>
         </div>
       </div>
     </div>
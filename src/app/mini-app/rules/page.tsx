@@ -0,0 +1,263 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { GroupResponse, KeywordRuleAction, KeywordRuleKind, KeywordRuleResponse, RuleTestResponse } from '@/types/api'
+
+const ACTION_LABELS: Record<KeywordRuleAction, string> = {
+  INCLUDE: '📌 Всегда включать',
+  EXCLUDE: '🚫 Всегда исключать',
+  BOOST: '⬆️ Поднимать выше',
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: 8,
+  border: '1px solid var(--tg-theme-hint-color, #ccc)',
+  fontSize: 15,
+  boxSizing: 'border-box' as const,
+  background: 'var(--tg-theme-bg-color, #fff)',
+  color: 'var(--tg-theme-text-color, #000)',
+}
+
+export default function RulesPage() {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [rules, setRules] = useState<KeywordRuleResponse[]>([])
+  const [groups, setGroups] = useState<GroupResponse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [pattern, setPattern] = useState('')
+  const [kind, setKind] = useState<KeywordRuleKind>('KEYWORD')
+  const [action, setAction] = useState<KeywordRuleAction>('INCLUDE')
+  const [boost, setBoost] = useState(2)
+  const [groupId, setGroupId] = useState<number | null>(null)
+  const [testResult, setTestResult] = useState<RuleTestResponse | null>(null)
+  const [testing, setTesting] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    Promise.all([
+      request<KeywordRuleResponse[]>('/api/rules'),
+      request<GroupResponse[]>('/api/groups'),
+    ])
+      .then(([r, g]) => {
+        setRules(r)
+        setGroups(g)
+      })
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [isReady, initData, request])
+
+  async function handleTest() {
+    if (!pattern.trim()) return
+    setTesting(true)
+    try {
+      const result = await request<RuleTestResponse>('/api/rules/test', {
+        method: 'POST',
+        body: JSON.stringify({ pattern: pattern.trim(), kind, groupId }),
+      })
+      setTestResult(result)
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  async function handleAdd() {
+    if (!pattern.trim()) return
+    setSaving(true)
+    try {
+      const rule = await request<KeywordRuleResponse>('/api/rules', {
+        method: 'POST',
+        body: JSON.stringify({ pattern: pattern.trim(), kind, action, boost, groupId }),
+      })
+      setRules((prev) => [...prev, rule])
+      setPattern('')
+      setTestResult(null)
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(ruleId: number) {
+    try {
+      await request(`/api/rules/${ruleId}`, { method: 'DELETE' })
+      setRules((prev) => prev.filter((r) => r.id !== ruleId))
+    } catch (e: unknown) {
+      alert((e as Error).message)
+    }
+  }
+
+  if (!isReady || loading) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  if (error) {
+    return <div style={{ padding: 20, color: 'red' }}>Ошибка: {error}</div>
+  }
+
+  const scopes = [
+    { id: null, title: 'Все каналы' },
+    ...groups.map((g) => ({ id: g.id as number | null, title: `📂 ${g.name}` })),
+  ]
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Правила</h1>
+      </div>
+
+      <p style={{ fontSize: 13, opacity: 0.7, marginTop: 0, marginBottom: 16 }}>
+        Слова находятся в любой форме: «кризис» найдёт и «кризиса», и «кризисом». Если сообщение подходит и под
+        «включать», и под «исключать», оно исключается.
+      </p>
+
+      {scopes.map((scope) => {
+        const scopeRules = rules.filter((r) => r.groupId === scope.id)
+        if (scopeRules.length === 0) return null
+        return (
+          <div key={scope.id ?? 'all'} style={{ marginBottom: 16 }}>
+            <div style={{ fontSize: 13, fontWeight: 700, opacity: 0.7, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 8 }}>
+              {scope.title}
+            </div>
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+              {scopeRules.map((rule) => (
+                <li key={rule.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '10px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+                  <div>
+                    <div style={{ fontWeight: 600, fontFamily: rule.kind === 'REGEX' ? 'monospace' : 'inherit' }}>{rule.pattern}</div>
+                    <div style={{ fontSize: 12, opacity: 0.6 }}>
+                      {ACTION_LABELS[rule.action]}
+                      {rule.action === 'BOOST' && ` на ${rule.boost}`}
+                      {rule.kind === 'REGEX' && ' · regex'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(rule.id)}
+                    style={{ background: 'none', border: 'none', color: 'red', cursor: 'pointer', fontSize: 18, padding: 4 }}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      })}
+
+      {/* New rule */}
+      <div style={{ marginTop: 24, padding: '12px 14px', background: 'var(--tg-theme-secondary-bg-color, #f5f5f5)', borderRadius: 10 }}>
+        <div style={{ fontSize: 14, fontWeight: 600, marginBottom: 12 }}>Новое правило</div>
+
+        <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+          {(['KEYWORD', 'REGEX'] as KeywordRuleKind[]).map((k) => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              style={{ flex: 1, padding: '8px', borderRadius: 8, fontSize: 13, cursor: 'pointer', border: '1px solid var(--tg-theme-button-color, #2481cc)', background: kind === k ? 'var(--tg-theme-button-color, #2481cc)' : 'none', color: kind === k ? 'var(--tg-theme-button-text-color, #fff)' : 'var(--tg-theme-button-color, #2481cc)' }}
+            >
+              {k === 'KEYWORD' ? 'Слово или фраза' : 'Регулярное выражение'}
+            </button>
+          ))}
+        </div>
+
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => {
+            setPattern(e.target.value)
+            setTestResult(null)
+          }}
+          placeholder={kind === 'KEYWORD' ? 'Например: розыгрыш криптовалюты' : 'Например: \\bairdrop\\b'}
+          style={{ ...inputStyle, marginBottom: 8, fontFamily: kind === 'REGEX' ? 'monospace' : 'inherit' }}
+        />
+
+        <select value={action} onChange={(e) => setAction(e.target.value as KeywordRuleAction)} style={{ ...inputStyle, marginBottom: 8 }}>
+          {(Object.keys(ACTION_LABELS) as KeywordRuleAction[]).map((a) => (
+            <option key={a} value={a}>{ACTION_LABELS[a]}</option>
+          ))}
+        </select>
+
+        {action === 'BOOST' && (
+          <div style={{ marginBottom: 8 }}>
+            <label style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13, opacity: 0.7, marginBottom: 6 }}>
+              <span>Прибавка к оценке</span>
+              <span style={{ fontWeight: 700, opacity: 1 }}>+{boost}</span>
+            </label>
+            <input
+              type="range"
+              min={0.5}
+              max={5}
+              step={0.5}
+              value={boost}
+              onChange={(e) => setBoost(Number(e.target.value))}
+              style={{ width: '100%', accentColor: 'var(--tg-theme-button-color, #2481cc)' }}
+            />
+          </div>
+        )}
+
+        <select
+          value={groupId ?? ''}
+          onChange={(e) => {
+            setGroupId(e.target.value ? Number(e.target.value) : null)
+            setTestResult(null)
+          }}
+          style={{ ...inputStyle, marginBottom: 12 }}
+        >
+          {scopes.map((scope) => (
+            <option key={scope.id ?? 'all'} value={scope.id ?? ''}>{scope.title}</option>
+          ))}
+        </select>
+
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            onClick={handleTest}
+            disabled={testing || !pattern.trim()}
+            style={{ flex: 1, padding: '10px', background: 'none', border: '1px solid var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-color, #2481cc)', borderRadius: 8, fontSize: 14, cursor: 'pointer', opacity: testing || !pattern.trim() ? 0.6 : 1 }}
+          >
+            {testing ? 'Проверяем...' : 'Проверить'}
+          </button>
+          <button
+            onClick={handleAdd}
+            disabled={saving || !pattern.trim()}
+            style={{ flex: 1, padding: '10px', background: 'var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-text-color, #fff)', border: 'none', borderRadius: 8, fontSize: 14, cursor: 'pointer', opacity: saving || !pattern.trim() ? 0.6 : 1 }}
+          >
+            {saving ? 'Сохраняем...' : 'Добавить'}
+          </button>
+        </div>
+
+        {testResult && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 8 }}>
+              Совпадений: {testResult.matches.length} из {testResult.scanned} сообщений за последние 3 дня
+            </div>
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+              {testResult.matches.map((m) => (
+                <li key={m.messageId} style={{ padding: '8px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+                  <div style={{ fontSize: 12, opacity: 0.6, marginBottom: 2 }}>
+                    {m.channelTitle} · {new Date(m.postedAt).toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                  </div>
+                  <a href={m.link} target="_blank" rel="noreferrer" style={{ fontSize: 13, color: 'inherit', textDecoration: 'none' }}>
+                    {m.text}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
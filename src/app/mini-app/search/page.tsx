@@ -0,0 +1,216 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { ChannelResponse, GroupResponse, SearchResponse, SearchResult } from '@/types/api'
+
+const CATEGORY_LABELS: Record<string, string> = {
+  politics: 'Политика',
+  economy: 'Экономика',
+  technology: 'Технологии',
+  science: 'Наука',
+  society: 'Общество',
+  sports: 'Спорт',
+  culture: 'Культура',
+  other: 'Другое',
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 10px',
+  borderRadius: 8,
+  border: '1px solid var(--tg-theme-hint-color, #ccc)',
+  fontSize: 14,
+  boxSizing: 'border-box' as const,
+  background: 'var(--tg-theme-bg-color, #fff)',
+  color: 'var(--tg-theme-text-color, #000)',
+}
+
+// The API marks matches with \u0002…\u0003 instead of HTML
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/\u0002|\u0003/)
+  return (
+    <>
+      {parts.map((part, i) => i % 2 === 1
+        ? <mark key={i} style={{ background: 'rgba(255, 214, 0, 0.45)', color: 'inherit', borderRadius: 2 }}>{part}</mark>
+        : <span key={i}>{part}</span>)}
+    </>
+  )
+}
+
+export default function SearchPage() {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [channels, setChannels] = useState<ChannelResponse[]>([])
+  const [groups, setGroups] = useState<GroupResponse[]>([])
+
+  const [query, setQuery] = useState('')
+  const [channelId, setChannelId] = useState('')
+  const [groupId, setGroupId] = useState('')
+  const [category, setCategory] = useState('')
+  const [minScore, setMinScore] = useState(1)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [showFilters, setShowFilters] = useState(false)
+
+  const [results, setResults] = useState<SearchResult[] | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    Promise.all([
+      request<ChannelResponse[]>('/api/channels'),
+      request<GroupResponse[]>('/api/groups'),
+    ])
+      .then(([ch, g]) => {
+        setChannels(ch)
+        setGroups(g)
+      })
+      .catch((e: Error) => setError(e.message))
+  }, [isReady, initData, request])
+
+  async function runSearch(offset: number) {
+    if (query.trim().length < 2) return
+    setSearching(true)
+    setError(null)
+
+    const params = new URLSearchParams({ q: query.trim(), offset: String(offset) })
+    if (channelId) params.set('channelId', channelId)
+    if (groupId) params.set('groupId', groupId)
+    if (category) params.set('category', category)
+    if (minScore > 1) params.set('minScore', String(minScore))
+    if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString())
+    if (to) params.set('to', new Date(`${to}T23:59:59`).toISOString())
+
+    try {
+      const response = await request<SearchResponse>(`/api/search?${params.toString()}`)
+      setResults((prev) => offset > 0 && prev ? [...prev, ...response.results] : response.results)
+      setHasMore(response.hasMore)
+    } catch (e: unknown) {
+      setError((e as Error).message)
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  if (!isReady) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 20 }}>Поиск</h1>
+      </div>
+
+      <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && runSearch(0)}
+          placeholder="Например: ставка ЦБ или «выборы в Европарламент»"
+          style={{ ...inputStyle, fontSize: 15, padding: '10px 12px' }}
+        />
+        <button
+          onClick={() => runSearch(0)}
+          disabled={searching || query.trim().length < 2}
+          style={{ padding: '10px 14px', background: 'var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-text-color, #fff)', border: 'none', borderRadius: 8, fontSize: 14, cursor: 'pointer', opacity: searching || query.trim().length < 2 ? 0.6 : 1 }}
+        >
+          🔍
+        </button>
+      </div>
+
+      <button
+        onClick={() => setShowFilters((v) => !v)}
+        style={{ background: 'none', border: 'none', color: 'var(--tg-theme-link-color, #2481cc)', cursor: 'pointer', fontSize: 13, padding: '4px 0', marginBottom: 8 }}
+      >
+        {showFilters ? 'Скрыть фильтры' : 'Фильтры'}
+      </button>
+
+      {showFilters && (
+        <div style={{ marginBottom: 16, padding: '12px 14px', background: 'var(--tg-theme-secondary-bg-color, #f5f5f5)', borderRadius: 10, display: 'flex', flexDirection: 'column', gap: 8 }}>
+          <select value={groupId} onChange={(e) => setGroupId(e.target.value)} style={inputStyle}>
+            <option value="">Все группы</option>
+            {groups.map((g) => <option key={g.id} value={g.id}>📂 {g.name}</option>)}
+          </select>
+          <select value={channelId} onChange={(e) => setChannelId(e.target.value)} style={inputStyle}>
+            <option value="">Все каналы</option>
+            {channels
+              .filter((ch) => !groupId || ch.groupId === Number(groupId))
+              .map((ch) => <option key={ch.id} value={ch.id}>{ch.title}</option>)}
+          </select>
+          <select value={category} onChange={(e) => setCategory(e.target.value)} style={inputStyle}>
+            <option value="">Все категории</option>
+            {Object.entries(CATEGORY_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 4 }}>
+              Оценка от {minScore === 1 ? 'любой' : `${minScore}+`}
+            </div>
+            <input
+              type="range"
+              min={1}
+              max={10}
+              step={1}
+              value={minScore}
+              onChange={(e) => setMinScore(Number(e.target.value))}
+              style={{ width: '100%', accentColor: 'var(--tg-theme-button-color, #2481cc)' }}
+            />
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+            <span>—</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+          </div>
+        </div>
+      )}
+
+      {error && <div style={{ marginBottom: 12, color: 'red', fontSize: 14 }}>{error}</div>}
+
+      {results && results.length === 0 && (
+        <div style={{ fontSize: 13, opacity: 0.5, padding: '8px 0' }}>Ничего не найдено.</div>
+      )}
+
+      {results && results.length > 0 && (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {results.map((r) => (
+            <li key={r.messageId} style={{ padding: '10px 0', borderBottom: '1px solid var(--tg-theme-hint-color, #ccc)' }}>
+              <div style={{ fontSize: 12, opacity: 0.6, marginBottom: 4 }}>
+                {new Date(r.postedAt).toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                {' · '}{r.channelTitle}
+                {r.category && ` · ${CATEGORY_LABELS[r.category] ?? r.category}`}
+                {r.importanceScore !== null && ` · ⭐ ${r.importanceScore.toFixed(1)}`}
+              </div>
+              {r.summary && <div style={{ fontSize: 14, fontWeight: 500, lineHeight: 1.4, marginBottom: 4 }}>{r.summary}</div>}
+              <div style={{ fontSize: 13, lineHeight: 1.5, opacity: 0.85 }}>
+                <Snippet text={r.snippet} />
+              </div>
+              <a href={r.link} target="_blank" rel="noreferrer" style={{ fontSize: 12, color: 'var(--tg-theme-link-color, #2481cc)', textDecoration: 'none' }}>
+                оригинал →
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && results && (
+        <button
+          onClick={() => runSearch(results.length)}
+          disabled={searching}
+          style={{ width: '100%', marginTop: 12, padding: '10px', background: 'none', border: '1px solid var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-color, #2481cc)', borderRadius: 8, fontSize: 14, cursor: 'pointer', opacity: searching ? 0.6 : 1 }}
+        >
+          {searching ? 'Загрузка...' : 'Показать ещё'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -4,7 +4,7 @@ import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useTelegramAuth } from '@/hooks/useTelegramAuth'
 import { useApi } from '@/hooks/useApi'
-import type { SettingsResponse } from '@/types/api'
+import type { DigestPeriod, SettingsResponse } from '@/types/api'
 
 const TIMEZONES = [
   'UTC',
@@ -20,12 +20,23 @@ const TIMEZONES = [
   'America/Los_Angeles',
 ]
 
+const PERIOD_LABELS: Record<DigestPeriod, string> = {
+  DAILY: 'Каждый день',
+  WEEKLY: 'Раз в неделю — итоги недели',
+  MONTHLY: 'Раз в месяц — итоги месяца',
+}
+
+const WEEKDAYS = ['понедельник', 'вторник', 'среда', 'четверг', 'пятница', 'суббота', 'воскресенье']
+
 export default function SettingsPage() {
   const router = useRouter()
   const { initData, isReady } = useTelegramAuth()
   const { request } = useApi(initData)
   const [settings, setSettings] = useState<SettingsResponse | null>(null)
   const [digestTime, setDigestTime] = useState('08:00')
+  const [digestPeriod, setDigestPeriod] = useState<DigestPeriod>('DAILY')
+  const [digestWeekday, setDigestWeekday] = useState(1)
+  const [digestMonthDay, setDigestMonthDay] = useState(1)
   const [timezone, setTimezone] = useState('UTC')
   const [digestPreferences, setDigestPreferences] = useState('')
   const [minImportanceScore, setMinImportanceScore] = useState(1)
@@ -41,6 +52,9 @@ export default function SettingsPage() {
       .then((s) => {
         setSettings(s)
         setDigestTime(s.digestTime)
+        setDigestPeriod(s.digestPeriod)
+        setDigestWeekday(s.digestWeekday)
+        setDigestMonthDay(s.digestMonthDay)
         setTimezone(s.timezone)
         setDigestPreferences(s.digestPreferences ?? '')
         setMinImportanceScore(s.minImportanceScore ?? 1)
@@ -59,6 +73,9 @@ export default function SettingsPage() {
         method: 'PATCH',
         body: JSON.stringify({
           digestTime,
+          digestPeriod,
+          digestWeekday,
+          digestMonthDay,
           timezone,
           digestPreferences: digestPreferences.trim() || null,
           minImportanceScore,
@@ -88,6 +105,84 @@ export default function SettingsPage() {
         <h1 style={{ margin: 0, fontSize: 20 }}>Настройки</h1>
       </div>
 
+      <label style={{ display: 'block', marginBottom: 16 }}>
+        <div style={{ fontWeight: 500, marginBottom: 6 }}>Периодичность</div>
+        <select
+          value={digestPeriod}
+          onChange={(e) => setDigestPeriod(e.target.value as DigestPeriod)}
+          style={{
+            width: '100%',
+            padding: '10px 12px',
+            borderRadius: 8,
+            border: '1px solid var(--tg-theme-hint-color, #ccc)',
+            fontSize: 16,
+            boxSizing: 'border-box',
+            background: 'var(--tg-theme-bg-color, #fff)',
+            color: 'var(--tg-theme-text-color, #000)',
+          }}
+        >
+          {(Object.keys(PERIOD_LABELS) as DigestPeriod[]).map((p) => (
+            <option key={p} value={p}>{PERIOD_LABELS[p]}</option>
+          ))}
+        </select>
+        <div style={{ fontSize: 13, opacity: 0.6, marginTop: 6 }}>
+          Группы со своей периодичностью настраиваются на странице группы.
+        </div>
+      </label>
+
+      {digestPeriod === 'WEEKLY' && (
+        <label style={{ display: 'block', marginBottom: 16 }}>
+          <div style={{ fontWeight: 500, marginBottom: 6 }}>День недели</div>
+          <select
+            value={digestWeekday}
+            onChange={(e) => setDigestWeekday(Number(e.target.value))}
+            style={{
+              width: '100%',
+              padding: '10px 12px',
+              borderRadius: 8,
+              border: '1px solid var(--tg-theme-hint-color, #ccc)',
+              fontSize: 16,
+              boxSizing: 'border-box',
+              background: 'var(--tg-theme-bg-color, #fff)',
+              color: 'var(--tg-theme-text-color, #000)',
+            }}
+          >
+            {WEEKDAYS.map((day, i) => (
+              <option key={day} value={i + 1}>{day}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {digestPeriod === 'MONTHLY' && (
+        <label style={{ display: 'block', marginBottom: 16 }}>
+          <div style={{ fontWeight: 500, marginBottom: 6 }}>День месяца</div>
+          <select
+            value={digestMonthDay}
+            onChange={(e) => setDigestMonthDay(Number(e.target.value))}
+            style={{
+              width: '100%',
+              padding: '10px 12px',
+              borderRadius: 8,
+              border: '1px solid var(--tg-theme-hint-color, #ccc)',
+              fontSize: 16,
+              boxSizing: 'border-box',
+              background: 'var(--tg-theme-bg-color, #fff)',
+              color: 'var(--tg-theme-text-color, #000)',
+            }}
+          >
+            {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+              <option key={day} value={day}>{day}</option>
+            ))}
+          </select>
+          {digestMonthDay > 28 && (
+            <div style={{ fontSize: 13, opacity: 0.6, marginTop: 6 }}>
+              В коротких месяцах дайджест придёт в последний день месяца.
+            </div>
+          )}
+        </label>
+      )}
+
       <label style={{ display: 'block', marginBottom: 16 }}>
         <div style={{ fontWeight: 500, marginBottom: 6 }}>Время дайджеста</div>
         <input
@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTelegramAuth } from '@/hooks/useTelegramAuth'
+import { useApi } from '@/hooks/useApi'
+import type { StoryThreadDetail } from '@/types/api'
+
+export default function StoryPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const { initData, isReady } = useTelegramAuth()
+  const { request } = useApi(initData)
+  const [story, setStory] = useState<StoryThreadDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isReady || !initData) return
+    request<StoryThreadDetail>(`/api/stories/${params.id}`)
+      .then(setStory)
+      .catch((e: Error) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [isReady, initData, request, params.id])
+
+  async function loadMore() {
+    if (!story) return
+    setLoadingMore(true)
+    try {
+      const next = await request<StoryThreadDetail>(`/api/stories/${params.id}?offset=${story.timeline.length}`)
+      setStory({ ...next, timeline: [...story.timeline, ...next.timeline] })
+    } catch (e: unknown) {
+      setError((e as Error).message)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  if (!isReady || loading) {
+    return <div style={{ padding: 20, textAlign: 'center' }}>Загрузка...</div>
+  }
+
+  if (error || !story) {
+    return <div style={{ padding: 20, color: 'red' }}>Ошибка: {error ?? 'История не найдена'}</div>
+  }
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+  return (
+    <div style={{ padding: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <button onClick={() => router.back()} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 20 }}>
+          ←
+        </button>
+        <h1 style={{ margin: 0, fontSize: 18 }}>{story.title}</h1>
+      </div>
+
+      <div style={{ marginBottom: 16, fontSize: 13, opacity: 0.7 }}>
+        {formatDate(story.firstSeenAt)} — {formatDate(story.lastSeenAt)} · {story.messageCount} сообщений
+      </div>
+
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0, borderLeft: '2px solid var(--tg-theme-hint-color, #ccc)' }}>
+        {story.timeline.map((item) => (
+          <li key={item.messageId} style={{ position: 'relative', marginBottom: 16, paddingLeft: 14 }}>
+            <span style={{ position: 'absolute', left: -6, top: 4, width: 10, height: 10, borderRadius: '50%', background: item.delivered ? 'var(--tg-theme-button-color, #2481cc)' : 'var(--tg-theme-hint-color, #ccc)' }} />
+            <div style={{ fontSize: 12, opacity: 0.6, marginBottom: 4 }}>
+              {formatDate(item.postedAt)} · {item.channelTitle}
+              {item.importanceScore !== null && ` · ⭐ ${item.importanceScore.toFixed(1)}`}
+              {item.delivered && ' · было в дайджесте'}
+            </div>
+            <div style={{ fontSize: 14, lineHeight: 1.5 }}>{item.summary ?? item.text.slice(0, 200)}</div>
+            <a href={item.link} target="_blank" rel="noreferrer" style={{ fontSize: 12, color: 'var(--tg-theme-link-color, #2481cc)', textDecoration: 'none' }}>
+              оригинал →
+            </a>
+          </li>
+        ))}
+      </ul>
+
+      {story.hasMore && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          style={{ width: '100%', marginTop: 4, padding: '10px', background: 'none', border: '1px solid var(--tg-theme-button-color, #2481cc)', color: 'var(--tg-theme-button-color, #2481cc)', borderRadius: 8, fontSize: 14, cursor: 'pointer', opacity: loadingMore ? 0.6 : 1 }}
+        >
+          {loadingMore ? 'Загрузка...' : 'Показать ещё'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import type { DigestPeriod } from '@prisma/client'
+
+export const DIGEST_PERIODS: DigestPeriod[] = ['DAILY', 'WEEKLY', 'MONTHLY']
+
+export interface DigestSchedule {
+  period: DigestPeriod
+  weekday: number // 1 = Monday … 7 = Sunday
+  monthDay: number // 1-31; shorter months use their last day
+}
+
+interface ScheduleFields {
+  digestPeriod: DigestPeriod | null
+  digestWeekday: number
+  digestMonthDay: number
+}
+
+// A group without a period of its own follows the user's schedule
+export function resolveSchedule(user: ScheduleFields & { digestPeriod: DigestPeriod }, group?: ScheduleFields | null): DigestSchedule {
+  const source = group?.digestPeriod ? group : user
+  return { period: source.digestPeriod!, weekday: source.digestWeekday, monthDay: source.digestMonthDay }
+}
+
+export function validateSchedule(input: { period?: unknown; weekday?: unknown; monthDay?: unknown }): string | null {
+  if (input.period !== undefined && !DIGEST_PERIODS.includes(input.period as DigestPeriod)) {
+    return `period must be one of: ${DIGEST_PERIODS.join(', ')}`
+  }
+  if (input.weekday !== undefined && (!Number.isInteger(input.weekday) || (input.weekday as number) < 1 || (input.weekday as number) > 7)) {
+    return 'weekday must be between 1 (Monday) and 7 (Sunday)'
+  }
+  if (input.monthDay !== undefined && (!Number.isInteger(input.monthDay) || (input.monthDay as number) < 1 || (input.monthDay as number) > 31)) {
+    return 'monthDay must be between 1 and 31'
+  }
+  return null
+}
+
+export function isDigestDay(schedule: DigestSchedule, timezone: string, now = new Date()): boolean {
+  if (schedule.period === 'DAILY') return true
+  const local = new Date(now.toLocaleString('en-US', { timeZone: timezone }))
+  if (schedule.period === 'WEEKLY') return (local.getDay() || 7) === schedule.weekday
+  const lastDay = new Date(local.getFullYear(), local.getMonth() + 1, 0).getDate()
+  return local.getDate() === Math.min(schedule.monthDay, lastDay)
+}
@@ -0,0 +1,24 @@
+import type { EntityType } from '@prisma/client'
+
+export const ENTITY_TYPES: EntityType[] = ['PERSON', 'ORGANIZATION', 'PLACE', 'TICKER']
+
+export interface ExtractedEntity {
+  type: EntityType
+  name: string
+}
+
+const MAX_ENTITY_NAME_LENGTH = 100
+const TICKER_REGEX = /^\$?[A-Z][A-Z0-9.]{0,9}$/i
+
+// Display form: trimmed, unquoted, single spaces; tickers are upper case without the $
+export function cleanEntityName(type: EntityType, name: string): string | null {
+  const cleaned = name.replace(/[«»"“”„]/g, '').replace(/\s+/g, ' ').trim()
+  if (!cleaned || cleaned.length > MAX_ENTITY_NAME_LENGTH) return null
+  if (type === 'TICKER') return TICKER_REGEX.test(cleaned) ? cleaned.replace(/^\$/, '').toUpperCase() : null
+  return cleaned
+}
+
+// Lookup key, so "Сбербанк", "СБЕРБАНК" and "Сбербанк " are one entity
+export function entityKey(name: string): string {
+  return name.toLowerCase().replace(/ё/g, 'е')
+}
@@ -0,0 +1,119 @@
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const FNV_OFFSET = BigInt('0xcbf29ce484222325')
+const FNV_PRIME = BigInt('0x100000001b3')
+const MASK_64 = (ONE << BigInt(64)) - ONE
+
+// Below this many words a simhash says more about wording than about the story
+const MIN_SIMHASH_WORDS = 8
+
+const URL_REGEX = /https?:\/\/[^\s<>"')\]]+/gi
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|yclid|ref|from)$/i
+const IGNORED_HOSTS = ['t.me', 'telegram.me', 'telegram.org']
+
+function fnv1a64(text: string): bigint {
+  let hash = FNV_OFFSET
+  for (const byte of Buffer.from(text, 'utf8')) {
+    hash ^= BigInt(byte)
+    hash = (hash * FNV_PRIME) & MASK_64
+  }
+  return hash
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .match(/[\p{L}\p{N}]{2,}/gu) ?? []
+}
+
+// 64-bit simhash over words, stored as a signed BIGINT. Word shingles tolerate the signatures and
+// emoji that channels add to reposts better than longer shingles do on short posts
+export function simhash(text: string): bigint | null {
+  const tokens = words(text)
+  if (tokens.length < MIN_SIMHASH_WORDS) return null
+
+  const weights = new Array<number>(64).fill(0)
+  for (const token of tokens) {
+    const hash = fnv1a64(token)
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & ONE ? 1 : -1
+    }
+  }
+
+  let result = ZERO
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) result |= ONE << BigInt(bit)
+  }
+  return BigInt.asIntN(64, result)
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let diff = BigInt.asUintN(64, a ^ b)
+  let count = 0
+  while (diff > ZERO) {
+    count += Number(diff & ONE)
+    diff >>= ONE
+  }
+  return count
+}
+
+// Normalised external links: tracking params, fragments and trailing slashes don't make a different story
+export function extractUrls(text: string): string[] {
+  const urls = new Set<string>()
+  for (const match of text.match(URL_REGEX) ?? []) {
+    let url: URL
+    try {
+      url = new URL(match.replace(/[.,;:!?]+$/, ''))
+    } catch {
+      continue
+    }
+    const host = url.hostname.toLowerCase().replace(/^www\./, '')
+    if (IGNORED_HOSTS.includes(host)) continue
+
+    const params = Array.from(url.searchParams.keys()).filter((key) => TRACKING_PARAMS.test(key))
+    params.forEach((key) => url.searchParams.delete(key))
+    const query = url.searchParams.toString()
+    urls.add(`${host}${url.pathname.replace(/\/+$/, '')}${query ? `?${query}` : ''}`)
+  }
+  return Array.from(urls)
+}
+
+const KEYWORD_STEM_LENGTH = 5
+const MAX_KEYWORDS = 20
+
+// Names, places and acronyms carry a story across days while the wording around them changes
+export function storyKeywords(text: string): string[] {
+  const keywords = new Set<string>()
+  const sentences = text.replace(/https?:\/\/\S+/g, ' ').split(/[.!?…\n]+/)
+
+  for (const sentence of sentences) {
+    const tokens = sentence.match(/[\p{L}\p{N}]+/gu) ?? []
+    tokens.forEach((token, i) => {
+      const isAcronym = token.length >= 2 && token.length <= 6 && token === token.toUpperCase() && /\p{L}/u.test(token)
+      const isName = i > 0 && token.length >= 4 && /^\p{Lu}\p{Ll}/u.test(token)
+      if (isAcronym || isName) keywords.add(token.toLowerCase().slice(0, KEYWORD_STEM_LENGTH))
+    })
+  }
+
+  return Array.from(keywords).slice(0, MAX_KEYWORDS)
+}
+
+const SHINGLE_SIZE = 2
+
+// Hashed word n-grams: a recurring promo keeps most of them even when prices and dates change
+export function shingles(text: string): string[] {
+  const tokens = words(text)
+  const result = new Set<string>()
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    result.add(fnv1a64(tokens.slice(i, i + SHINGLE_SIZE).join(' ')).toString(16).slice(0, 10))
+  }
+  return Array.from(result)
+}
+
+export function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+  const setB = new Set(b)
+  const shared = a.filter((s) => setB.has(s)).length
+  return shared / (a.length + b.length - shared)
+}
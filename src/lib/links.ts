@@ -0,0 +1,8 @@
+export function buildMessageLink(channel: { username: string | null; telegramChannelId: bigint }, telegramMsgId: number): string {
+  if (channel.username) {
+    return `https://t.me/${channel.username}/${telegramMsgId}`
+  }
+  // Private channel: strip -100 prefix from channel ID
+  const numericId = channel.telegramChannelId.toString().replace(/^-100/, '')
+  return `https://t.me/c/${numericId}/${telegramMsgId}`
+}
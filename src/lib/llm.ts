@@ -0,0 +1,96 @@
+import OpenAI from 'openai'
+import { prisma } from '@/lib/prisma'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('LLM')
+
+export type LlmCapability = 'scoring' | 'summary' | 'tts' | 'embedding'
+export type LlmProviderKind = 'openrouter' | 'openai' | 'local'
+
+export type LlmProvider =
+  | { kind: 'local' }
+  | { kind: 'openrouter' | 'openai'; client: OpenAI; model: string }
+
+const PROVIDER_KINDS: LlmProviderKind[] = ['openrouter', 'openai', 'local']
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1'
+
+const DEFAULT_MODELS: Record<LlmCapability, string> = {
+  scoring: 'google/gemini-3-flash-preview',
+  summary: 'google/gemini-3-flash-preview',
+  tts: 'openai/gpt-4o-audio-preview',
+  embedding: 'openai/text-embedding-3-small',
+}
+
+const SETTINGS_TTL_MS = 60_000
+
+interface ProviderSettings {
+  provider: LlmProviderKind
+  model?: string
+  baseUrl?: string
+}
+
+const clients = new Map<string, OpenAI>()
+let dbSettings: Map<string, ProviderSettings> | null = null
+let dbSettingsLoadedAt = 0
+
+function env(capability: LlmCapability, key: string): string | undefined {
+  return process.env[`LLM_${capability.toUpperCase()}_${key}`] || process.env[`LLM_${key}`] || undefined
+}
+
+function parseKind(value: string | undefined, source: string): LlmProviderKind | undefined {
+  if (!value) return undefined
+  if ((PROVIDER_KINDS as string[]).includes(value)) return value as LlmProviderKind
+  logger.warn('Unknown LLM provider, ignoring', { value, source })
+  return undefined
+}
+
+async function loadDbSettings(): Promise<Map<string, ProviderSettings>> {
+  if (dbSettings && Date.now() - dbSettingsLoadedAt < SETTINGS_TTL_MS) return dbSettings
+
+  const settings = new Map<string, ProviderSettings>()
+  try {
+    const rows = await prisma.llmProviderSetting.findMany()
+    for (const row of rows) {
+      const provider = parseKind(row.provider, `db:${row.capability}`)
+      if (!provider) continue
+      settings.set(row.capability, { provider, model: row.model ?? undefined, baseUrl: row.baseUrl ?? undefined })
+    }
+  } catch (err) {
+    logger.warn('Failed to load LLM provider settings from DB, using env', { error: err })
+  }
+
+  dbSettings = settings
+  dbSettingsLoadedAt = Date.now()
+  return settings
+}
+
+function getClient(baseURL: string, apiKey: string): OpenAI {
+  const key = `${baseURL}|${apiKey}`
+  let client = clients.get(key)
+  if (!client) {
+    client = new OpenAI({ baseURL, apiKey })
+    clients.set(key, client)
+  }
+  return client
+}
+
+// DB settings win over env so the provider can be switched without a redeploy
+export async function getLlmProvider(capability: LlmCapability): Promise<LlmProvider> {
+  const fromDb = (await loadDbSettings()).get(capability)
+  const kind = fromDb?.provider ?? parseKind(env(capability, 'PROVIDER'), 'env') ?? 'openrouter'
+
+  if (kind === 'local') return { kind }
+
+  const model = fromDb?.model ?? env(capability, 'MODEL') ?? DEFAULT_MODELS[capability]
+
+  if (kind === 'openrouter') {
+    const apiKey = process.env.OPENROUTER_API_KEY
+    if (!apiKey) throw new Error('OPENROUTER_API_KEY is not set')
+    return { kind, client: getClient(OPENROUTER_BASE_URL, apiKey), model }
+  }
+
+  const baseURL = fromDb?.baseUrl ?? env(capability, 'BASE_URL')
+  if (!baseURL) throw new Error(`LLM base URL is not set for ${capability} (LLM_BASE_URL)`)
+  // Self-hosted servers often don't check the key, but the SDK requires one
+  return { kind, client: getClient(baseURL, env(capability, 'API_KEY') ?? 'none'), model }
+}
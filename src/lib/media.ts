@@ -0,0 +1,20 @@
+const MEDIA_ICONS: Record<string, string> = {
+  photo: '🖼',
+  video: '🎬',
+  round: '⏺',
+  animation: '🎞',
+  audio: '🎧',
+  voice: '🎙',
+  document: '📎',
+  sticker: '🏷',
+  poll: '📊',
+  geo: '📍',
+  mixed: '🗂',
+  other: '📦',
+}
+
+export function formatMediaLabel(mediaType: string | null, mediaCount: number): string | null {
+  if (!mediaType) return null
+  const icon = MEDIA_ICONS[mediaType] ?? MEDIA_ICONS.other
+  return mediaCount > 1 ? `${icon}×${mediaCount}` : icon
+}
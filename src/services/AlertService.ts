@@ -0,0 +1,183 @@
+import { AlertSettings, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getBot } from '@/lib/bot'
+import { createLogger } from '@/lib/logger'
+import { formatMediaLabel } from '@/lib/media'
+import { buildMessageLink } from '@/lib/links'
+import { SCORE_CATEGORIES } from '@/services/GeminiScorer'
+import { loadRules, evaluateRules } from '@/services/KeywordRules'
+
+const logger = createLogger('AlertService')
+
+const MAX_ALERT_AGE_MS = 6 * 60 * 60 * 1000 // 6 hours
+export const MIN_ALERT_THRESHOLD = 5
+export const MAX_ALERTS_PER_DAY = 20
+const MAX_WATCH_ALERTS_PER_DAY = 20
+
+export interface AlertSettingsInput {
+  enabled: boolean
+  threshold: number
+  categories: string[]
+  quietStart: string | null
+  quietEnd: string | null
+  maxPerDay: number
+}
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export function validateAlertSettings(input: Partial<AlertSettingsInput>): string | null {
+  if (typeof input.enabled !== 'boolean') return 'enabled must be a boolean'
+  if (typeof input.threshold !== 'number' || input.threshold < MIN_ALERT_THRESHOLD || input.threshold > 10) {
+    return `threshold must be between ${MIN_ALERT_THRESHOLD} and 10`
+  }
+  if (!Array.isArray(input.categories) || input.categories.some((c) => !SCORE_CATEGORIES.includes(c))) {
+    return `categories must be a subset of: ${SCORE_CATEGORIES.join(', ')}`
+  }
+  if ((input.quietStart === null) !== (input.quietEnd === null)) return 'quiet hours need both start and end'
+  for (const time of [input.quietStart, input.quietEnd]) {
+    if (time !== null && (typeof time !== 'string' || !TIME_REGEX.test(time))) return 'Invalid quiet hours format (HH:MM)'
+  }
+  if (!Number.isInteger(input.maxPerDay) || input.maxPerDay! < 1 || input.maxPerDay! > MAX_ALERTS_PER_DAY) {
+    return `maxPerDay must be between 1 and ${MAX_ALERTS_PER_DAY}`
+  }
+  return null
+}
+
+function localTime(date: Date, timezone: string): string {
+  return date.toLocaleTimeString('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hour12: false })
+}
+
+// Quiet hours may wrap past midnight, e.g. 23:00–07:00
+export function isQuietTime(settings: Pick<AlertSettings, 'quietStart' | 'quietEnd'>, timezone: string, now = new Date()): boolean {
+  const { quietStart, quietEnd } = settings
+  if (!quietStart || !quietEnd || quietStart === quietEnd) return false
+  const time = localTime(now, timezone)
+  return quietStart < quietEnd ? time >= quietStart && time < quietEnd : time >= quietStart || time < quietEnd
+}
+
+function startOfLocalDay(timezone: string, now = new Date()): Date {
+  const userDateStr = now.toLocaleDateString('en-CA', { timeZone: timezone }) // YYYY-MM-DD
+  const tzOffset = new Date(now.toLocaleString('en-US', { timeZone: timezone })).getTime() - now.getTime()
+  return new Date(new Date(`${userDateStr}T00:00:00`).getTime() - tzOffset)
+}
+
+type AlertMessage = Prisma.MessageGetPayload<{ include: { channel: true } }>
+
+function formatAlertText(message: AlertMessage, timezone: string, heading: string): string {
+  const mediaLabel = formatMediaLabel(message.mediaType, message.mediaCount)
+  return [
+    `<b>${heading} · [${message.category ?? 'other'}]</b>${mediaLabel ? ` ${mediaLabel}` : ''} — ${message.channel.title}`,
+    message.summary ?? message.text.slice(0, 300),
+    `<i>⭐ ${(message.importanceScore ?? 0).toFixed(1)} · ${localTime(message.postedAt, timezone)}</i> · <a href="${buildMessageLink(message.channel, message.telegramMsgId)}">оригинал</a>`,
+  ].join('\n')
+}
+
+// The alert row is claimed before sending: its unique keys make the same message or story alert a user
+// only once, even when copies from several channels are scored at the same time
+async function claimAlert(data: Prisma.AlertUncheckedCreateInput): Promise<number | null> {
+  try {
+    const alert = await prisma.alert.create({ data })
+    return alert.id
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null
+    throw error
+  }
+}
+
+export async function sendAlertsForMessage(messageId: number): Promise<number> {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: {
+      entities: { include: { entity: true } },
+      channel: {
+        include: {
+          userChannels: {
+            include: { user: { include: { alertSettings: true, watchlist: { where: { notify: true } } } } },
+          },
+        },
+      },
+    },
+  })
+
+  if (!message || message.importanceScore === null || message.isFiltered || message.isAd || message.deletedAt) return 0
+  // Backfilled history and re-scored old posts are left to the digest
+  if (Date.now() - message.postedAt.getTime() > MAX_ALERT_AGE_MS) return 0
+
+  const bot = getBot()
+  const now = new Date()
+  const score = message.importanceScore
+  let sent = 0
+
+  for (const sub of message.channel.userChannels) {
+    const { user } = sub
+    if (!user.active) continue
+    if (sub.snoozedUntil && sub.snoozedUntil > now) continue
+    if (sub.topicIds.length > 0 && (message.threadId === null || !sub.topicIds.includes(message.threadId))) continue
+
+    // A group's own settings replace the user-wide ones for the channels in that group
+    const settings = user.alertSettings.find((s) => sub.groupId !== null && s.groupId === sub.groupId)
+      ?? user.alertSettings.find((s) => s.groupId === null)
+    const breaking = !!settings?.enabled
+      && score >= settings.threshold
+      && (settings.categories.length === 0 || settings.categories.includes(message.category ?? 'other'))
+    const watched = message.entities
+      .map((m) => m.entity)
+      .filter((entity) => user.watchlist.some((w) => w.entityId === entity.id))
+    if (!breaking && watched.length === 0) continue
+
+    if (settings && isQuietTime(settings, user.timezone, now)) continue
+
+    const rules = await loadRules(user.id, sub.groupId)
+    if (evaluateRules(rules, message.text).exclude) continue
+
+    // Breaking alerts count against their settings' limit, watched mentions against their own
+    const sentToday = await prisma.alert.count({
+      where: breaking
+        ? { userId: user.id, groupId: settings!.groupId, entityId: null, sentAt: { gte: startOfLocalDay(user.timezone, now) } }
+        : { userId: user.id, entityId: { not: null }, sentAt: { gte: startOfLocalDay(user.timezone, now) } },
+    })
+    if (sentToday >= (breaking ? settings!.maxPerDay : MAX_WATCH_ALERTS_PER_DAY)) {
+      logger.info('Daily alert limit reached', { userId: user.id, groupId: settings?.groupId, messageId, breaking })
+      continue
+    }
+
+    const alertId = await claimAlert({
+      userId: user.id,
+      groupId: breaking ? settings!.groupId : null,
+      messageId: message.id,
+      storyId: message.storyId,
+      entityId: breaking ? null : watched[0].id,
+    })
+    if (alertId === null) continue
+
+    const heading = breaking ? '🚨 Срочно' : `👁 ${watched.map((e) => e.name).join(', ')}`
+    try {
+      await bot.sendMessage(user.telegramId.toString(), formatAlertText(message, user.timezone, heading), {
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+      })
+      sent++
+    } catch (error) {
+      await prisma.alert.delete({ where: { id: alertId } })
+      logger.error('Failed to send alert', { userId: user.id, messageId, error })
+    }
+  }
+
+  if (sent > 0) logger.info('Alerts sent', { messageId, score, recipients: sent })
+  return sent
+}
+
+// Stories already pushed as alerts are marked in the next digest instead of being dropped
+export async function loadAlertedMessageIds(userId: number, messages: { id: number; storyId: number | null }[]): Promise<Set<number>> {
+  if (messages.length === 0) return new Set()
+  const storyIds = Array.from(new Set(messages.map((m) => m.storyId).filter((id): id is number => id !== null)))
+
+  const alerts = await prisma.alert.findMany({
+    where: { userId, OR: [{ messageId: { in: messages.map((m) => m.id) } }, { storyId: { in: storyIds } }] },
+    select: { messageId: true, storyId: true },
+  })
+
+  return new Set(messages
+    .filter((m) => alerts.some((a) => a.messageId === m.id || (m.storyId !== null && a.storyId === m.storyId)))
+    .map((m) => m.id))
+}
@@ -0,0 +1,128 @@
+import { prisma } from '@/lib/prisma'
+import { createLogger } from '@/lib/logger'
+import { buildMessageLink } from '@/lib/links'
+import { answerQuestion } from '@/services/GeminiScorer'
+import { cosineSimilarity, embedTexts } from '@/services/EmbeddingService'
+
+const logger = createLogger('AskService')
+
+export const DEFAULT_ASK_DAYS = 7
+export const MAX_ASK_DAYS = 30
+export const MAX_QUESTION_LENGTH = 500
+const SCAN_BATCH_SIZE = 1000
+const MAX_SOURCES = 10
+const MIN_SIMILARITY = 0.2
+
+export interface RelatedMessage {
+  messageId: number
+  channelTitle: string
+  postedAt: Date
+  summary: string | null
+  text: string
+  link: string
+  similarity: number
+}
+
+export interface AskResult {
+  answer: string
+  sources: RelatedMessage[]
+}
+
+// Similarity is computed in memory over the whole window, in batches that hold only ids and vectors;
+// full rows are loaded for the best matches alone. Only vectors from the question's model are comparable with it
+export async function findRelatedMessages(userId: number, query: string, days = DEFAULT_ASK_DAYS, limit = MAX_SOURCES): Promise<RelatedMessage[]> {
+  const subscriptions = await prisma.userChannel.findMany({ where: { userId }, select: { channelId: true } })
+  if (subscriptions.length === 0) return []
+
+  const { model, vectors } = await embedTexts([query])
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+  // Copies of one story from several channels would crowd out everything else
+  const best = new Map<string, { similarity: number; messageId: number }>()
+  let lastId = 0
+  for (;;) {
+    const batch = await prisma.messageEmbedding.findMany({
+      where: {
+        id: { gt: lastId },
+        model,
+        message: {
+          channelId: { in: subscriptions.map((s) => s.channelId) },
+          postedAt: { gte: since },
+          isFiltered: false,
+          isAd: false,
+          deletedAt: null,
+        },
+      },
+      select: { id: true, messageId: true, vector: true, message: { select: { storyId: true } } },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+    })
+
+    for (const candidate of batch) {
+      const similarity = cosineSimilarity(vectors[0], candidate.vector)
+      if (similarity < MIN_SIMILARITY) continue
+      const key = candidate.message.storyId !== null ? `story:${candidate.message.storyId}` : `message:${candidate.messageId}`
+      const current = best.get(key)
+      if (!current || current.similarity < similarity) best.set(key, { similarity, messageId: candidate.messageId })
+    }
+
+    if (batch.length < SCAN_BATCH_SIZE) break
+    lastId = batch[batch.length - 1].id
+  }
+
+  const top = Array.from(best.values())
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+  const messages = await prisma.message.findMany({
+    where: { id: { in: top.map((t) => t.messageId) } },
+    include: { channel: true },
+  })
+  const byId = new Map(messages.map((m) => [m.id, m]))
+
+  return top.flatMap(({ similarity, messageId }) => {
+    const message = byId.get(messageId)
+    if (!message) return []
+    return [{
+      messageId: message.id,
+      channelTitle: message.channel.title,
+      postedAt: message.postedAt,
+      summary: message.summary,
+      text: message.text,
+      link: buildMessageLink(message.channel, message.telegramMsgId),
+      similarity,
+    }]
+  })
+}
+
+export async function askChannels(userId: number, question: string, days = DEFAULT_ASK_DAYS): Promise<AskResult> {
+  const sources = await findRelatedMessages(userId, question, days)
+  if (sources.length === 0) {
+    return { answer: 'В ваших каналах за этот период ничего не нашлось по этому вопросу.', sources }
+  }
+
+  const answer = await answerQuestion(question, sources.map((s) => ({
+    channelTitle: s.channelTitle,
+    postedAt: s.postedAt,
+    text: s.summary ? `${s.summary}\n${s.text}` : s.text,
+  })))
+
+  logger.info('Question answered', { userId, days, sources: sources.length })
+  return { answer, sources }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// Citations [n] become links to the originals; the rest of the model's text is escaped
+export function formatAnswerHtml(result: AskResult, timezone: string): string {
+  const answer = escapeHtml(result.answer).replace(/\[(\d+)\]/g, (match, n: string) => {
+    const source = result.sources[Number(n) - 1]
+    return source ? `<a href="${source.link}">[${n}]</a>` : match
+  })
+  if (result.sources.length === 0) return answer
+
+  const sources = result.sources.map((s, i) =>
+    `${i + 1}. <a href="${s.link}">${escapeHtml(s.channelTitle)}</a>, ${s.postedAt.toLocaleDateString('ru-RU', { timeZone: timezone, day: 'numeric', month: 'short' })}`)
+  return `${answer}\n\n<i>Источники:</i>\n${sources.join('\n')}`
+}
@@ -1,5 +1,6 @@
-import { getOpenRouterClient } from '@/lib/openrouter'
+import { getLlmProvider } from '@/lib/llm'
 import { createLogger } from '@/lib/logger'
+import { synthesizeSpeechLocally } from './LocalProvider'
 
 const logger = createLogger('AudioService')
 
@@ -42,13 +43,17 @@ function pcm16ToWav(pcmBuffer: Buffer): Buffer {
 }
 
 export async function textToAudio(text: string): Promise<Buffer> {
-  const client = getOpenRouterClient()
+  const provider = await getLlmProvider('tts')
   const cleanText = stripHtml(text)
 
-  logger.info('Generating audio from text', { textLength: cleanText.length })
+  logger.info('Generating audio from text', { textLength: cleanText.length, provider: provider.kind })
 
-  const stream = await (client.chat.completions.create as Function)({
-    model: 'openai/gpt-4o-audio-preview',
+  if (provider.kind === 'local') {
+    return pcm16ToWav(synthesizeSpeechLocally(cleanText, SAMPLE_RATE))
+  }
+
+  const stream = await (provider.client.chat.completions.create as Function)({
+    model: provider.model,
     modalities: ['text', 'audio'],
     audio: { voice: 'alloy', format: 'pcm16' },
     messages: [
@@ -1,53 +1,103 @@
-const AD_WORDS = [
-  'реклама',
-  'промокод',
-  'скидка',
-  'купить',
-  'партнёр',
-  'партнер',
-  'спонсор',
-  'акция',
-  'распродажа',
-  'promo',
-  'discount',
-  'sponsor',
-  'ad ',
-  '#ad',
-]
+import type { FilterReason, Message, UserChannel } from '@prisma/client'
+
+// Words that hint at an ad; a post needs several of them to be filtered
+const AD_LEXICON: Record<string, string[]> = {
+  ru: ['реклама', 'промокод', 'скидка', 'скидки', 'купить', 'партнёр', 'партнер', 'спонсор', 'акция', 'распродажа', 'розыгрыш', 'подписывайтесь', 'переходи', 'бесплатно'],
+  uk: ['знижка', 'знижки', 'акція', 'розпродаж', 'купуйте', 'партнерський'],
+  en: ['promo', 'promo code', 'discount', 'sponsor', 'sponsored', 'ad', 'advertisement', 'giveaway', 'coupon', 'affiliate', 'buy now', 'limited offer', 'sale'],
+  de: ['rabatt', 'gutschein', 'anzeige', 'werbung'],
+  es: ['descuento', 'cupón', 'publicidad', 'patrocinado'],
+}
+
+// Legal ad markings are conclusive on their own
+const AD_MARKERS = ['erid', 'на правах рекламы', '#реклама', '#ad', '#sponsored', 'paid partnership']
 
 const URL_ONLY_REGEX = /^(https?:\/\/\S+\s*)+$/
 
+// AD_TEMPLATE is matched by the worker against promo templates learned per channel
+export const FILTER_REASONS: FilterReason[] = ['TOO_SHORT', 'URL_ONLY', 'AD_KEYWORDS', 'AD_TEMPLATE', 'EMOJI_SPAM']
+
+export interface FilterConfig {
+  minLength: number
+  adWordThreshold: number
+  emojiRatio: number
+  disabled: FilterReason[]
+}
+
 export interface FilterResult {
   filtered: boolean
-  reason?: string
+  reason?: FilterReason
+}
+
+function termRegex(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu')
 }
 
-export function filterMessage(text: string): FilterResult {
+const AD_WORD_REGEXES = Array.from(new Set(Object.values(AD_LEXICON).flat())).map(termRegex)
+const AD_MARKER_REGEXES = AD_MARKERS.map(termRegex)
+
+function parseDisabled(value: string | undefined): FilterReason[] {
+  const names = (value ?? '').split(',').map((s) => s.trim().toUpperCase())
+  return FILTER_REASONS.filter((reason) => names.includes(reason))
+}
+
+export const GLOBAL_FILTER_CONFIG: FilterConfig = {
+  minLength: parseInt(process.env.FILTER_MIN_LENGTH ?? '30', 10),
+  adWordThreshold: parseInt(process.env.FILTER_AD_WORD_THRESHOLD ?? '2', 10),
+  emojiRatio: parseFloat(process.env.FILTER_EMOJI_RATIO ?? '0.5'),
+  disabled: parseDisabled(process.env.FILTER_DISABLED_RULES),
+}
+
+// A subscriber's overrides fall back to the global thresholds; exemptions add to the globally disabled rules
+export function filterConfigFor(
+  overrides: Pick<UserChannel, 'filterMinLength' | 'filterAdWordThreshold' | 'filterEmojiRatio' | 'filterExemptions'> | undefined,
+): FilterConfig {
+  if (!overrides) return GLOBAL_FILTER_CONFIG
+  return {
+    minLength: overrides.filterMinLength ?? GLOBAL_FILTER_CONFIG.minLength,
+    adWordThreshold: overrides.filterAdWordThreshold ?? GLOBAL_FILTER_CONFIG.adWordThreshold,
+    emojiRatio: overrides.filterEmojiRatio ?? GLOBAL_FILTER_CONFIG.emojiRatio,
+    disabled: Array.from(new Set([...GLOBAL_FILTER_CONFIG.disabled, ...overrides.filterExemptions])),
+  }
+}
+
+export function filterMessage(text: string, config: FilterConfig = GLOBAL_FILTER_CONFIG): FilterResult {
   const trimmed = text.trim()
+  const enabled = (reason: FilterReason) => !config.disabled.includes(reason)
 
-  if (trimmed.length < 30) {
-    return { filtered: true, reason: 'too_short' }
+  if (enabled('TOO_SHORT') && trimmed.length < config.minLength) {
+    return { filtered: true, reason: 'TOO_SHORT' }
   }
 
-  if (URL_ONLY_REGEX.test(trimmed)) {
-    return { filtered: true, reason: 'url_only' }
+  if (enabled('URL_ONLY') && URL_ONLY_REGEX.test(trimmed)) {
+    return { filtered: true, reason: 'URL_ONLY' }
   }
 
-  const lower = trimmed.toLowerCase()
-  const adWordCount = AD_WORDS.filter((w) => lower.includes(w)).length
-  if (adWordCount >= 2) {
-    return { filtered: true, reason: 'ad_keywords' }
+  if (enabled('AD_KEYWORDS')) {
+    const marked = AD_MARKER_REGEXES.some((r) => r.test(trimmed))
+    const adWordCount = AD_WORD_REGEXES.filter((r) => r.test(trimmed)).length
+    if (marked || adWordCount >= config.adWordThreshold) {
+      return { filtered: true, reason: 'AD_KEYWORDS' }
+    }
   }
 
   const words = trimmed.split(/\s+/)
-  if (words.length < 20) {
+  if (enabled('EMOJI_SPAM') && words.length < 20) {
     const emojiRegex = /\p{Emoji}/gu
     const emojiMatches = trimmed.match(emojiRegex) ?? []
     const ratio = emojiMatches.length / words.length
-    if (ratio > 0.5) {
-      return { filtered: true, reason: 'emoji_spam' }
+    if (ratio > config.emojiRatio) {
+      return { filtered: true, reason: 'EMOJI_SPAM' }
     }
   }
 
   return { filtered: false }
 }
+
+// Promo templates are matched by the worker at ingestion, so that verdict comes from the stored reason
+export function filterReasonFor(message: Pick<Message, 'text' | 'filterReason'>, config: FilterConfig): FilterReason | null {
+  const result = filterMessage(message.text, config)
+  if (result.filtered) return result.reason ?? null
+  return message.filterReason === 'AD_TEMPLATE' && !config.disabled.includes('AD_TEMPLATE') ? 'AD_TEMPLATE' : null
+}
@@ -1,10 +1,87 @@
+import crypto from 'crypto'
+import { DigestPeriod, Prisma, StoryStatus, UserChannel } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { getBot } from '@/lib/bot'
 import { createLogger } from '@/lib/logger'
-import { generateDigestSummary, generateAnalyticsOnlySummary } from '@/services/GeminiScorer'
+import { formatMediaLabel } from '@/lib/media'
+import { buildMessageLink } from '@/lib/links'
+import { DigestSchedule, isDigestDay, resolveSchedule } from '@/lib/digestSchedule'
+import { storyKeywords } from '@/lib/fingerprint'
+import { generateDigestSummary, generateAnalyticsOnlySummary, summarizeThread, scoreRelevance } from '@/services/GeminiScorer'
+import { getLearnedPreferences, feedbackBoost, LearnedPreferences } from '@/services/FeedbackService'
+import { loadRules, evaluateRules, RuleVerdict } from '@/services/KeywordRules'
+import { filterConfigFor, filterReasonFor } from '@/services/ContentFilter'
+import { loadAlertedMessageIds } from '@/services/AlertService'
 
 const logger = createLogger('DigestService')
 const MAX_MESSAGE_LENGTH = 4096
+const THREAD_CONTEXT_LIMIT = 50
+const RELEVANCE_WEIGHT = 0.5
+const CANDIDATE_POOL_FACTOR = 3
+const MAX_CANDIDATE_POOL = 150
+const RELEVANCE_BATCH_SIZE = 30
+const PREVIOUS_COVERAGE_LIMIT = 3
+const DIVERSITY_PENALTY = 3
+const COVERAGE_BONUS = 1
+const MAX_ROLLUP_SOURCES = 5
+const WATCHED_PER_ENTITY = 3
+const WATCHED_SECTION_LIMIT = 15
+
+const HOUR_MS = 60 * 60 * 1000
+
+interface PeriodWindow {
+  defaultMs: number
+  maxLookbackMs: number
+  freshnessHalfLifeHours: number
+  minCandidatePool: number
+}
+
+// Longer periods look further back, decay slower and need a larger pool to find the stories that ran all week
+const PERIOD_WINDOWS: Record<DigestPeriod, PeriodWindow> = {
+  DAILY: { defaultMs: 24 * HOUR_MS, maxLookbackMs: 72 * HOUR_MS, freshnessHalfLifeHours: 48, minCandidatePool: 0 },
+  WEEKLY: { defaultMs: 7 * 24 * HOUR_MS, maxLookbackMs: 10 * 24 * HOUR_MS, freshnessHalfLifeHours: 7 * 24, minCandidatePool: 300 },
+  MONTHLY: { defaultMs: 30 * 24 * HOUR_MS, maxLookbackMs: 35 * 24 * HOUR_MS, freshnessHalfLifeHours: 30 * 24, minCandidatePool: 400 },
+}
+
+const ANALYTICS_LABELS: Record<DigestPeriod, string> = {
+  DAILY: 'Аналитика дня',
+  WEEKLY: 'Аналитика недели',
+  MONTHLY: 'Аналитика месяца',
+}
+
+type CandidateMessage = Prisma.MessageGetPayload<{ include: { channel: { include: { forumTopics: true } } } }>
+
+interface RankedMessage {
+  message: CandidateMessage
+  score: number
+}
+
+interface StoryPick {
+  message: CandidateMessage
+  sources: CandidateMessage[]
+  score: number
+  coverage: number
+}
+
+export interface DiversityCaps {
+  maxPerChannel: number
+  maxPerCategory: number
+}
+
+const DEFAULT_DIVERSITY_CAPS: DiversityCaps = { maxPerChannel: 5, maxPerCategory: 10 }
+
+interface DigestItem {
+  message: CandidateMessage
+  summary: string | null
+  threadSize: number
+  sources: CandidateMessage[]
+  coverage: number
+}
+
+interface StoryContext {
+  status: StoryStatus
+  previously: string[]
+}
 
 interface DigestMessage {
   rank: number
@@ -14,39 +91,84 @@ interface DigestMessage {
   score: number
   postedAt: Date
   messageLink: string
+  mediaType: string | null
+  mediaCount: number
+  threadSize: number
+  sources: { title: string; link: string }[]
+  storyStatus: StoryStatus
+  previously: string[]
+  alerted: boolean
+  coverage: number
 }
 
-function buildMessageLink(channel: { username: string | null; telegramChannelId: bigint }, telegramMsgId: number): string {
-  if (channel.username) {
-    return `https://t.me/${channel.username}/${telegramMsgId}`
-  }
-  // Private channel: strip -100 prefix from channel ID
-  const numericId = channel.telegramChannelId.toString().replace(/^-100/, '')
-  return `https://t.me/c/${numericId}/${telegramMsgId}`
+interface WatchedSection {
+  name: string
+  items: { summary: string; title: string; link: string }[]
+}
+
+const STORY_STATUS_LABELS: Record<StoryStatus, string> = {
+  NEW: '',
+  UPDATE: ' 🔄 развитие истории',
+  COVERED: ' ↩️ уже было',
+}
+
+function formatPeriodTitle(period: DigestPeriod, periodStart: Date, periodEnd: Date): string {
+  const format = (date: Date) => date.toLocaleDateString('ru-RU', { day: 'numeric', month: 'long' })
+  if (period === 'DAILY') return `Дайджест за ${format(periodStart)}`
+  const range = `${format(periodStart)} — ${format(periodEnd)}`
+  return period === 'WEEKLY' ? `Итоги недели: ${range}` : `Итоги месяца: ${range}`
 }
 
-function formatDigestText(messages: DigestMessage[], periodStart: Date, groupName?: string): string {
-  const dateStr = periodStart.toLocaleDateString('ru-RU', { day: 'numeric', month: 'long' })
+function formatDigestText(
+  messages: DigestMessage[],
+  period: DigestPeriod,
+  periodStart: Date,
+  periodEnd: Date,
+  groupName?: string,
+  watched: WatchedSection[] = [],
+): string {
+  const title = formatPeriodTitle(period, periodStart, periodEnd)
   const heading = groupName
-    ? `<b>📂 ${groupName} — Дайджест за ${dateStr}</b>`
-    : `<b>📰 Дайджест за ${dateStr}</b>`
+    ? `<b>📂 ${groupName} — ${title}</b>`
+    : `<b>📰 ${title}</b>`
+  const rollup = period !== 'DAILY'
 
   const lines: string[] = [
     heading,
-    `<i>Топ ${messages.length} новостей${groupName ? ` из группы «${groupName}»` : ' из ваших каналов'}</i>`,
+    `<i>Топ ${messages.length} ${rollup ? 'историй' : 'новостей'}${groupName ? ` из группы «${groupName}»` : ' из ваших каналов'}</i>`,
     '',
   ]
 
   for (const msg of messages) {
-    const time = msg.postedAt.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })
+    // A rollup spans days, so its items are dated rather than timed
+    const time = rollup
+      ? msg.postedAt.toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' })
+      : msg.postedAt.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })
+    const mediaLabel = formatMediaLabel(msg.mediaType, msg.mediaCount)
     lines.push(
-      `<b>${msg.rank}. [${msg.category}]</b> — ${msg.channelTitle}`,
+      `<b>${msg.rank}. [${msg.category}]</b>${mediaLabel ? ` ${mediaLabel}` : ''} — ${msg.channelTitle}${STORY_STATUS_LABELS[msg.storyStatus]}${msg.alerted ? ' 🚨 было в оповещении' : ''}`,
       msg.summary,
-      `<i>⭐ ${msg.score.toFixed(1)} · ${time}</i> · <a href="${msg.messageLink}">оригинал</a>`,
+      ...(msg.sources.length > 0
+        ? [`📡 Также: ${msg.sources.map((src) => `<a href="${src.link}">${src.title}</a>`).join(', ')}`]
+        : []),
+      `<i>⭐ ${msg.score.toFixed(1)} · ${time}${msg.threadSize > 1 ? ` · 💬 ${msg.threadSize}` : ''}${rollup && msg.coverage > 1 ? ` · 📰 ${msg.coverage} публ.` : ''}</i> · <a href="${msg.messageLink}">оригинал</a>`,
       '',
     )
   }
 
+  if (watched.length > 0) {
+    lines.push('<b>👁 Отслеживаемое</b>')
+    for (const section of watched) {
+      lines.push(
+        `<b>${section.name}</b>`,
+        ...section.items.map((item) => `• ${item.summary} — <a href="${item.link}">${item.title}</a>`),
+      )
+    }
+    lines.push('')
+  }
+
+  lines.push('<i>Оцените новости ответом на дайджест, например: +1 +3 -7</i>')
+
   return lines.join('\n')
 }
 
@@ -67,37 +189,520 @@ function splitText(text: string, maxLength: number): string[] {
   return parts
 }
 
+function threadKey(msg: CandidateMessage): string | null {
+  if (msg.channel.kind === 'BROADCAST' || msg.threadId === null) return null
+  return `${msg.channelId}:${msg.threadId}`
+}
+
+function sourceTitle(msg: CandidateMessage): string {
+  if (msg.channel.kind !== 'FORUM') return msg.channel.title
+  const topic = msg.channel.forumTopics.find((t) => t.topicId === msg.threadId)
+  return topic ? `${msg.channel.title} · ${topic.title}` : msg.channel.title
+}
+
+// Group chatter is digested per thread: the best-scored message represents the whole discussion
+async function groupByThread(picks: StoryPick[], periodStart: Date, periodEnd: Date): Promise<DigestItem[]> {
+  const items: DigestItem[] = []
+  const seenThreads = new Set<string>()
+
+  for (const { message: msg, sources, coverage } of picks) {
+    const key = threadKey(msg)
+    if (key === null) {
+      items.push({ message: msg, summary: msg.summary, threadSize: 1, sources, coverage })
+      continue
+    }
+    if (seenThreads.has(key)) continue
+    seenThreads.add(key)
+
+    const thread = await prisma.message.findMany({
+      where: {
+        channelId: msg.channelId,
+        threadId: msg.threadId,
+        postedAt: { gte: periodStart, lte: periodEnd },
+        isFiltered: false,
+        deletedAt: null,
+      },
+      orderBy: { postedAt: 'asc' },
+      take: THREAD_CONTEXT_LIMIT,
+      select: { text: true, authorName: true },
+    })
+
+    let summary = msg.summary
+    if (thread.length > 1) {
+      try {
+        summary = await summarizeThread(thread, sourceTitle(msg))
+      } catch (err) {
+        logger.warn('Failed to summarize thread, using message summary', { channelId: msg.channelId, threadId: msg.threadId, error: err })
+      }
+    }
+    items.push({ message: msg, summary, threadSize: thread.length, sources, coverage })
+  }
+
+  return items
+}
+
+function buildRelevanceProfile(...parts: (string | null | undefined)[]): string | null {
+  const profile = parts.map((p) => p?.trim()).filter(Boolean).join('\n')
+  return profile || null
+}
+
+async function loadRelevance(
+  messages: CandidateMessage[],
+  userId: number,
+  scopeKey: string,
+  profile: string,
+): Promise<Map<number, number>> {
+  const profileHash = crypto.createHash('sha1').update(profile).digest('hex')
+
+  const stored = await prisma.messageRelevance.findMany({
+    where: { scopeKey, profileHash, messageId: { in: messages.map((m) => m.id) } },
+    select: { messageId: true, score: true },
+  })
+  const relevance = new Map(stored.map((r) => [r.messageId, r.score]))
+
+  const missing = messages.filter((m) => !relevance.has(m.id))
+  for (let i = 0; i < missing.length; i += RELEVANCE_BATCH_SIZE) {
+    const batch = missing.slice(i, i + RELEVANCE_BATCH_SIZE)
+    let scores: Map<number, number>
+    try {
+      scores = await scoreRelevance(profile, batch.map((m) => ({ id: m.id, text: m.summary ?? m.text })))
+    } catch (err) {
+      logger.warn('Failed to score relevance, ranking by importance', { userId, scopeKey, error: err })
+      continue
+    }
+
+    await prisma.$transaction(
+      Array.from(scores.entries()).map(([messageId, score]) =>
+        prisma.messageRelevance.upsert({
+          where: { messageId_scopeKey: { messageId, scopeKey } },
+          create: { messageId, userId, scopeKey, profileHash, score },
+          update: { profileHash, score, createdAt: new Date() },
+        }),
+      ),
+    )
+    scores.forEach((score, messageId) => relevance.set(messageId, score))
+  }
+
+  return relevance
+}
+
+// Global importance is shared by all subscribers; relevance to the reader's interests, their
+// past feedback and freshness re-order it
+async function rankCandidates(
+  messages: CandidateMessage[],
+  userId: number,
+  scopeKey: string,
+  profile: string | null,
+  learned: LearnedPreferences,
+  periodEnd: Date,
+  freshnessHalfLifeHours: number,
+  channelWeights: Map<number, number>,
+  ruleBoosts: Map<number, number>,
+): Promise<RankedMessage[]> {
+  const relevance = profile ? await loadRelevance(messages, userId, scopeKey, profile) : new Map<number, number>()
+  const rankScore = (m: CandidateMessage) => {
+    const importance = m.importanceScore ?? 0
+    const rel = relevance.get(m.id)
+    const base = rel === undefined ? importance : importance * (1 - RELEVANCE_WEIGHT) + rel * RELEVANCE_WEIGHT
+    const weighted = base * (channelWeights.get(m.channelId) ?? 1)
+    const ageHours = Math.max(0, periodEnd.getTime() - m.postedAt.getTime()) / (60 * 60 * 1000)
+    const decayed = weighted * Math.pow(0.5, ageHours / freshnessHalfLifeHours)
+    return decayed + feedbackBoost(learned, m) + (ruleBoosts.get(m.id) ?? 0)
+  }
+
+  return messages.map((message) => ({ message, score: rankScore(message) })).sort((a, b) => b.score - a.score)
+}
+
+const SCORE_STATUS_QUALITY: Record<string, number> = { OK: 2, REPAIRED: 1, FALLBACK: 0 }
+
+function summaryQuality(a: CandidateMessage, b: CandidateMessage): number {
+  const status = (SCORE_STATUS_QUALITY[b.scoreStatus ?? ''] ?? 0) - (SCORE_STATUS_QUALITY[a.scoreStatus ?? ''] ?? 0)
+  if (status !== 0) return status
+  const importance = (b.importanceScore ?? 0) - (a.importanceScore ?? 0)
+  if (importance !== 0) return importance
+  return (b.summary?.length ?? 0) - (a.summary?.length ?? 0)
+}
+
+// Messages this user already received in a sent digest of the same group and period type; a weekly
+// rollup recaps the week's stories even if they were in a daily digest before the switch
+function notDeliveredIn(userId: number, groupId: number | null, period: DigestPeriod): Prisma.MessageWhereInput {
+  return { digestMessages: { none: { digest: { userId, groupId, period, status: 'SENT' } } } }
+}
+
+// A post the user rescued from the filter stays in even when the scorer then flags it as an ad
+function notAdFor(userId: number): Prisma.MessageWhereInput {
+  return { NOT: { isAd: true, filterRescues: { none: { userId } } } }
+}
+
+// A digest covers everything since the previous sent digest of its group, so manual sends and
+// schedule changes neither repeat nor skip a stretch of posts
+async function resolvePeriodStart(userId: number, groupId: number | null, period: DigestPeriod, periodEnd: Date): Promise<Date> {
+  const previous = await prisma.digest.findFirst({
+    where: { userId, groupId, period, status: 'SENT' },
+    orderBy: { periodEnd: 'desc' },
+    select: { periodEnd: true },
+  })
+  const window = PERIOD_WINDOWS[period]
+  const earliest = periodEnd.getTime() - window.maxLookbackMs
+  if (!previous) return new Date(periodEnd.getTime() - window.defaultMs)
+  return new Date(Math.max(previous.periodEnd.getTime(), earliest))
+}
+
+// Reposts of the same story collapse into one item at the rank of its best copy; the copy with the
+// most trustworthy summary represents it and the rest are listed as sources
+async function collapseStories(
+  ranked: RankedMessage[],
+  channelIds: number[],
+  periodStart: Date,
+  periodEnd: Date,
+  userScope: Prisma.MessageWhereInput,
+  isExcluded: (message: CandidateMessage) => boolean,
+): Promise<StoryPick[]> {
+  const storyIds = Array.from(new Set(ranked.map((r) => r.message.storyId).filter((id): id is number => id !== null)))
+  const members = storyIds.length === 0 ? [] : await prisma.message.findMany({
+    where: {
+      storyId: { in: storyIds },
+      channelId: { in: channelIds },
+      postedAt: { gte: periodStart, lte: periodEnd },
+      isFiltered: false,
+      deletedAt: null,
+      importanceScore: { not: null },
+      ...userScope,
+    },
+    include: { channel: { include: { forumTopics: true } } },
+  })
+
+  const membersByStory = new Map<number, CandidateMessage[]>()
+  for (const m of members) {
+    if (m.storyId === null || isExcluded(m)) continue
+    const list = membersByStory.get(m.storyId) ?? []
+    list.push(m)
+    membersByStory.set(m.storyId, list)
+  }
+
+  const picks: StoryPick[] = []
+  const seenStories = new Set<number>()
+  for (const { message: msg, score } of ranked) {
+    if (msg.storyId === null) {
+      picks.push({ message: msg, sources: [], score, coverage: 1 })
+      continue
+    }
+    if (seenStories.has(msg.storyId)) continue
+    seenStories.add(msg.storyId)
+
+    const story = membersByStory.get(msg.storyId) ?? [msg]
+    const [representative, ...others] = [...story].sort(summaryQuality)
+    // One link per channel is enough even if a channel posted the story twice
+    const sourceChannels = new Set([representative.channelId])
+    const sources = others.filter((m) => {
+      if (sourceChannels.has(m.channelId)) return false
+      sourceChannels.add(m.channelId)
+      return true
+    })
+    picks.push({ message: representative, sources, score, coverage: story.length })
+  }
+
+  return picks
+}
+
+// Over a week or a month a story thread gathers many developments: it becomes one item led by its
+// best-ranked development, and stories are ranked up by how widely they were covered in the period
+function rollUpThreads(picks: StoryPick[], threadCoverage: Map<number, number>): StoryPick[] {
+  const threads = new Map<number, StoryPick[]>()
+  const rolled: StoryPick[] = []
+
+  for (const pick of picks) {
+    const threadId = pick.message.storyThreadId
+    if (threadId === null) {
+      rolled.push({ ...pick, score: pick.score + COVERAGE_BONUS * Math.log2(pick.coverage) })
+      continue
+    }
+    const list = threads.get(threadId) ?? []
+    list.push(pick)
+    threads.set(threadId, list)
+  }
+
+  threads.forEach((developments, threadId) => {
+    const [lead, ...rest] = developments
+    const sourceChannels = new Set([lead.message.channelId])
+    const sources = [...lead.sources, ...rest.flatMap((p) => [p.message, ...p.sources])]
+      .filter((m) => {
+        if (sourceChannels.has(m.channelId)) return false
+        sourceChannels.add(m.channelId)
+        return true
+      })
+      .slice(0, MAX_ROLLUP_SOURCES)
+    const coverage = Math.max(threadCoverage.get(threadId) ?? 0, developments.reduce((sum, p) => sum + p.coverage, 0))
+    rolled.push({ message: lead.message, sources, score: lead.score + COVERAGE_BONUS * Math.log2(coverage), coverage })
+  })
+
+  return rolled.sort((a, b) => b.score - a.score)
+}
+
+function keywordSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach((k) => {
+    if (b.has(k)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+// Greedy selection: each step takes the best pick within the caps after a penalty for resembling
+// what is already selected. Caps give way only once nothing within them is left, so a group with
+// few channels still fills its digest
+function diversifyPicks(picks: StoryPick[], caps: DiversityCaps, limit: number): StoryPick[] {
+  const keywords = new Map(picks.map((p) => [p.message.id, new Set(storyKeywords(p.message.text))]))
+  const perChannel = new Map<number, number>()
+  const perCategory = new Map<string, number>()
+  const remaining = [...picks]
+  const selected: StoryPick[] = []
+
+  const similarity = (a: StoryPick, b: StoryPick): number => {
+    if (a.message.storyThreadId !== null && a.message.storyThreadId === b.message.storyThreadId) return 1
+    return keywordSimilarity(keywords.get(a.message.id) ?? new Set(), keywords.get(b.message.id) ?? new Set())
+  }
+  const withinCaps = (p: StoryPick): boolean =>
+    (perChannel.get(p.message.channelId) ?? 0) < caps.maxPerChannel &&
+    (perCategory.get(p.message.category ?? 'other') ?? 0) < caps.maxPerCategory
+
+  while (selected.length < limit && remaining.length > 0) {
+    const capped = remaining.filter(withinCaps)
+    const pool = capped.length > 0 ? capped : remaining
+
+    let best = pool[0]
+    let bestScore = -Infinity
+    for (const pick of pool) {
+      const maxSimilarity = selected.reduce((max, s) => Math.max(max, similarity(pick, s)), 0)
+      const score = pick.score - maxSimilarity * DIVERSITY_PENALTY
+      if (score > bestScore) {
+        best = pick
+        bestScore = score
+      }
+    }
+
+    selected.push(best)
+    remaining.splice(remaining.indexOf(best), 1)
+    perChannel.set(best.message.channelId, (perChannel.get(best.message.channelId) ?? 0) + 1)
+    const category = best.message.category ?? 'other'
+    perCategory.set(category, (perCategory.get(category) ?? 0) + 1)
+  }
+
+  return selected
+}
+
+// Compares each item with what this user already received from the same story thread
+async function loadStoryContext(userId: number, messages: CandidateMessage[]): Promise<Map<number, StoryContext>> {
+  const context = new Map<number, StoryContext>()
+  const threadIds = Array.from(new Set(messages.map((m) => m.storyThreadId).filter((id): id is number => id !== null)))
+  if (threadIds.length === 0) return context
+
+  const delivered = await prisma.digestMessage.findMany({
+    where: { digest: { userId, status: 'SENT' }, message: { storyThreadId: { in: threadIds } } },
+    include: { message: { select: { id: true, storyId: true, storyThreadId: true, summary: true, text: true } } },
+    orderBy: { digest: { sentAt: 'desc' } },
+  })
+
+  for (const msg of messages) {
+    const earlier = delivered.filter((d) => msg.storyThreadId !== null && d.message.storyThreadId === msg.storyThreadId)
+    if (earlier.length === 0) continue
+
+    const covered = earlier.some((d) => d.message.id === msg.id || (msg.storyId !== null && d.message.storyId === msg.storyId))
+    context.set(msg.id, {
+      status: covered ? 'COVERED' : 'UPDATE',
+      previously: earlier.slice(0, PREVIOUS_COVERAGE_LIMIT).map((d) => d.message.summary ?? d.message.text.slice(0, 200)),
+    })
+  }
+
+  return context
+}
+
+// Mentions of watched entities that did not make the main list, grouped by entity
+async function loadWatchedSections(
+  userId: number,
+  where: Prisma.MessageWhereInput,
+  shownIds: number[],
+  isExcluded: (msg: CandidateMessage) => boolean,
+): Promise<WatchedSection[]> {
+  const watchlist = await prisma.watchedEntity.findMany({ where: { userId }, include: { entity: true } })
+  if (watchlist.length === 0) return []
+
+  const mentions = await prisma.message.findMany({
+    where: { ...where, id: { notIn: shownIds }, entities: { some: { entityId: { in: watchlist.map((w) => w.entityId) } } } },
+    orderBy: { importanceScore: 'desc' },
+    take: WATCHED_SECTION_LIMIT * WATCHED_PER_ENTITY,
+    include: { channel: { include: { forumTopics: true } }, entities: { select: { entityId: true } } },
+  })
+
+  const sections: WatchedSection[] = []
+  const listedStories = new Set<number>()
+  let total = 0
+  for (const { entity } of watchlist) {
+    const items: WatchedSection['items'] = []
+    for (const msg of mentions) {
+      if (items.length >= WATCHED_PER_ENTITY || total >= WATCHED_SECTION_LIMIT) break
+      if (!msg.entities.some((e) => e.entityId === entity.id) || isExcluded(msg)) continue
+      if (msg.storyId !== null && listedStories.has(msg.storyId)) continue
+      if (msg.storyId !== null) listedStories.add(msg.storyId)
+      items.push({
+        summary: msg.summary ?? msg.text.slice(0, 200),
+        title: sourceTitle(msg),
+        link: buildMessageLink(msg.channel, msg.telegramMsgId),
+      })
+      total++
+    }
+    if (items.length > 0) sections.push({ name: entity.name, items })
+  }
+  return sections
+}
+
+// Counts every post of each thread in the period, including the ones that never made the candidate pool
+async function countThreadCoverage(picks: StoryPick[], where: Prisma.MessageWhereInput): Promise<Map<number, number>> {
+  const threadIds = Array.from(new Set(picks.map((p) => p.message.storyThreadId).filter((id): id is number => id !== null)))
+  if (threadIds.length === 0) return new Map()
+
+  const counts = await prisma.message.groupBy({
+    by: ['storyThreadId'],
+    where: { ...where, storyThreadId: { in: threadIds } },
+    _count: { _all: true },
+  })
+  return new Map(counts.map((c) => [c.storyThreadId!, c._count._all]))
+}
+
+interface DigestGroupOptions {
+  group?: { id: number; name: string; aiPrompt?: string } // omitted for the user's ungrouped channels
+  maxMessages?: number
+  minImportanceScore?: number
+  analyticsOnly?: boolean
+  subscriptions?: Map<number, UserChannel>
+  relevanceProfile?: string | null
+  caps?: DiversityCaps
+  period?: DigestPeriod
+}
+
 async function sendDigestGroup(
   userId: number,
   telegramId: string,
   channelIds: number[],
   periodStart: Date,
   periodEnd: Date,
-  groupId?: number,
-  groupName?: string,
-  aiPrompt?: string,
-  maxMessages: number = 30,
-  minImportanceScore: number = 1,
-  analyticsOnly: boolean = false,
-): Promise<void> {
+  options: DigestGroupOptions = {},
+): Promise<boolean> {
+  const {
+    group,
+    maxMessages = 30,
+    minImportanceScore = 1,
+    analyticsOnly = false,
+    subscriptions = new Map<number, UserChannel>(),
+    relevanceProfile = null,
+    caps = DEFAULT_DIVERSITY_CAPS,
+    period = 'DAILY',
+  } = options
+  const groupId = group?.id
+  const groupName = group?.name
+  const aiPrompt = group?.aiPrompt
   const bot = getBot()
+  const window = PERIOD_WINDOWS[period]
+  const userScope: Prisma.MessageWhereInput = { ...notDeliveredIn(userId, groupId ?? null, period), ...notAdFor(userId) }
+
+  const activeChannelIds = channelIds.filter((id) => {
+    const snoozedUntil = subscriptions.get(id)?.snoozedUntil
+    return !snoozedUntil || snoozedUntil < periodEnd
+  })
+  const includesAll = (id: number) => subscriptions.get(id)?.includeAll ?? false
+
+  // Forum subscriptions may be narrowed down to specific topics; posts from a snooze are skipped
+  const scopeOf = (id: number): Prisma.MessageWhereInput => {
+    const sub = subscriptions.get(id)
+    return {
+      channelId: id,
+      ...(sub?.topicIds.length ? { threadId: { in: sub.topicIds } } : {}),
+      ...(sub?.snoozedUntil ? { postedAt: { gte: sub.snoozedUntil } } : {}),
+    }
+  }
+  const baseWhere: Prisma.MessageWhereInput = {
+    postedAt: { gte: periodStart, lte: periodEnd },
+    isFiltered: false,
+    deletedAt: null,
+    ...userScope,
+  }
+
+  const learned = await getLearnedPreferences(userId)
+  const rules = await loadRules(userId, groupId ?? null)
+  const verdicts = new Map<number, RuleVerdict>()
+  const verdictOf = (m: { id: number; text: string }): RuleVerdict => {
+    let verdict = verdicts.get(m.id)
+    if (!verdict) {
+      verdict = evaluateRules(rules, m.text)
+      verdicts.set(m.id, verdict)
+    }
+    return verdict
+  }
+
+  // Ingestion only drops what every subscriber's settings drop; this user's own overrides and rescues apply here
+  const rescues = await prisma.filterRescue.findMany({
+    where: { userId, message: { channelId: { in: activeChannelIds }, postedAt: { gte: periodStart, lte: periodEnd } } },
+    select: { messageId: true },
+  })
+  const rescued = new Set(rescues.map((r) => r.messageId))
+  const filterConfigs = new Map(channelIds.map((id) => [id, filterConfigFor(subscriptions.get(id))]))
+  const isExcluded = (m: CandidateMessage) =>
+    verdictOf(m).exclude || (!rescued.has(m.id) && filterReasonFor(m, filterConfigs.get(m.channelId)!) !== null)
 
-  const rawMessages = await prisma.message.findMany({
+  const candidates = await prisma.message.findMany({
     where: {
-      channelId: { in: channelIds },
-      postedAt: { gte: periodStart, lte: periodEnd },
-      isFiltered: false,
-      importanceScore: { gte: minImportanceScore },
-      isAd: false,
+      ...baseWhere,
+      OR: activeChannelIds.filter((id) => !includesAll(id)).map((id) => ({
+        ...scopeOf(id),
+        importanceScore: { gte: subscriptions.get(id)?.minImportanceScore ?? minImportanceScore },
+      })),
     },
     orderBy: { importanceScore: 'desc' },
-    take: maxMessages,
-    include: { channel: true },
+    // Reranking and story collapsing both need more candidates than end up in the digest
+    take: Math.max(Math.min(maxMessages * CANDIDATE_POOL_FACTOR, MAX_CANDIDATE_POOL), window.minCandidatePool),
+    include: { channel: { include: { forumTopics: true } } },
+  })
+
+  // "Include everything" channels bypass score thresholds, the candidate pool and diversity caps
+  const includeAllIds = activeChannelIds.filter(includesAll)
+  const mustInclude = includeAllIds.length === 0 ? [] : await prisma.message.findMany({
+    where: { ...baseWhere, OR: includeAllIds.map(scopeOf) },
+    include: { channel: { include: { forumTopics: true } } },
   })
 
-  if (rawMessages.length === 0) {
+  // Include rules must see past the score threshold and the candidate pool, so they scan the whole period
+  let ruleIncluded: CandidateMessage[] = []
+  if (rules.some((r) => r.rule.action === 'INCLUDE')) {
+    const texts = await prisma.message.findMany({
+      where: { ...baseWhere, OR: activeChannelIds.map(scopeOf) },
+      select: { id: true, text: true },
+    })
+    const ids = texts.filter((m) => verdictOf(m).include).map((m) => m.id)
+    ruleIncluded = ids.length === 0 ? [] : await prisma.message.findMany({
+      where: { id: { in: ids } },
+      include: { channel: { include: { forumTopics: true } } },
+    })
+  }
+
+  const pool = new Map([...mustInclude, ...ruleIncluded, ...candidates].map((m) => [m.id, m]))
+  const eligible = Array.from(pool.values()).filter((m) => !isExcluded(m))
+  const isPinned = (m: CandidateMessage) => includesAll(m.channelId) || verdictOf(m).include
+
+  const scopeKey = groupId !== undefined ? `group:${groupId}` : `user:${userId}`
+  const channelWeights = new Map(channelIds.map((id) => [id, subscriptions.get(id)?.weight ?? 1]))
+  const ruleBoosts = new Map(eligible.map((m) => [m.id, verdictOf(m).boost]))
+  const ranked = await rankCandidates(eligible, userId, scopeKey, relevanceProfile, learned, periodEnd, window.freshnessHalfLifeHours, channelWeights, ruleBoosts)
+  const collapsed = await collapseStories(ranked, activeChannelIds, periodStart, periodEnd, userScope, isExcluded)
+  const stories = period === 'DAILY'
+    ? collapsed
+    : rollUpThreads(collapsed, await countThreadCoverage(collapsed, { ...baseWhere, OR: activeChannelIds.map(scopeOf) }))
+  const pinned = stories.filter((story) => [story.message, ...story.sources].some(isPinned))
+  const picks = [...pinned, ...diversifyPicks(stories.filter((story) => !pinned.includes(story)), caps, maxMessages - pinned.length)]
+    .sort((a, b) => b.score - a.score)
+
+  if (picks.length === 0) {
     logger.info('No messages for digest group', { userId, groupName })
-    return
+    return false
   }
 
   const digest = await prisma.digest.create({
@@ -106,39 +711,58 @@ async function sendDigestGroup(
       periodStart,
       periodEnd,
       status: 'PENDING',
+      period,
       groupId: groupId ?? null,
       groupName: groupName ?? null,
     },
   })
 
+  const items = await groupByThread(picks, periodStart, periodEnd)
+
+  const storyContext = await loadStoryContext(userId, items.map((item) => item.message))
+  const contextOf = (msg: CandidateMessage): StoryContext => storyContext.get(msg.id) ?? { status: 'NEW', previously: [] }
+  const alerted = await loadAlertedMessageIds(userId, items.flatMap((item) => [item.message, ...item.sources]))
+
   await prisma.digestMessage.createMany({
-    data: rawMessages.map((msg, i) => ({
+    data: items.map((item, i) => ({
       digestId: digest.id,
-      messageId: msg.id,
+      messageId: item.message.id,
       rank: i + 1,
+      storyStatus: contextOf(item.message).status,
     })),
   })
 
-  const messages: DigestMessage[] = rawMessages.map((msg, i) => ({
+  const messages: DigestMessage[] = items.map(({ message: msg, summary, threadSize, sources, coverage }, i) => ({
     rank: i + 1,
     category: msg.category ?? 'other',
-    channelTitle: msg.channel.title,
-    summary: msg.summary ?? msg.text.slice(0, 200),
+    channelTitle: sourceTitle(msg),
+    summary: summary ?? msg.text.slice(0, 200),
     score: msg.importanceScore ?? 0,
     postedAt: msg.postedAt,
     messageLink: buildMessageLink(msg.channel, msg.telegramMsgId),
+    mediaType: msg.mediaType,
+    mediaCount: msg.mediaCount,
+    threadSize,
+    sources: sources.map((src) => ({ title: sourceTitle(src), link: buildMessageLink(src.channel, src.telegramMsgId) })),
+    storyStatus: contextOf(msg).status,
+    previously: contextOf(msg).previously,
+    alerted: [msg, ...sources].some((m) => alerted.has(m.id)),
+    coverage,
   }))
 
+  // Lets a feedback reply be matched to the digest it answers
+  const sentMessageIds: number[] = []
+
   try {
     const audioButton = {
       inline_keyboard: [[{ text: '🔊 Получить аудио вывод', callback_data: `audio:${digest.id}` }]],
     }
 
     if (analyticsOnly) {
-      const label = groupName ? `🧠 Аналитика: ${groupName}` : '🧠 Аналитика дня'
+      const label = groupName ? `🧠 ${ANALYTICS_LABELS[period]}: ${groupName}` : `🧠 ${ANALYTICS_LABELS[period]}`
       let analyticsText: string
       try {
-        analyticsText = await generateAnalyticsOnlySummary(messages, aiPrompt)
+        analyticsText = await generateAnalyticsOnlySummary(messages, aiPrompt, period)
       } catch (err) {
         logger.warn('Failed to generate analytics-only summary', { userId, groupName, error: err })
         throw err
@@ -154,22 +778,29 @@ async function sendDigestGroup(
         })
       }
     } else {
-      const text = formatDigestText(messages, periodStart, groupName)
+      const watched = await loadWatchedSections(
+        userId,
+        { ...baseWhere, OR: activeChannelIds.map(scopeOf) },
+        items.flatMap((item) => [item.message, ...item.sources]).map((m) => m.id),
+        (m) => verdictOf(m).exclude,
+      )
+      const text = formatDigestText(messages, period, periodStart, periodEnd, groupName, watched)
       const parts = splitText(text, MAX_MESSAGE_LENGTH)
 
       let summaryText: string | null = null
       try {
-        summaryText = await generateDigestSummary(messages, aiPrompt)
+        summaryText = await generateDigestSummary(messages, aiPrompt, period)
       } catch (err) {
         logger.warn('Failed to generate digest summary, skipping', { userId, groupName, error: err })
       }
 
       for (const part of parts) {
-        await bot.sendMessage(telegramId, part, { parse_mode: 'HTML' })
+        const sent = await bot.sendMessage(telegramId, part, { parse_mode: 'HTML' })
+        sentMessageIds.push(sent.message_id)
       }
 
       if (summaryText) {
-        const label = groupName ? `🧠 Аналитика: ${groupName}` : '🧠 Аналитика дня'
+        const label = groupName ? `🧠 ${ANALYTICS_LABELS[period]}: ${groupName}` : `🧠 ${ANALYTICS_LABELS[period]}`
         const summaryMessage = `<b>${label}</b>\n\n${summaryText}`
         await prisma.digest.update({ where: { id: digest.id }, data: { analyticsText: summaryMessage } })
         const summaryParts = splitText(summaryMessage, MAX_MESSAGE_LENGTH)
@@ -185,10 +816,11 @@ async function sendDigestGroup(
 
     await prisma.digest.update({
       where: { id: digest.id },
-      data: { status: 'SENT', sentAt: new Date() },
+      data: { status: 'SENT', sentAt: new Date(), sentMessageIds },
     })
 
-    logger.info('Digest group sent', { userId, groupName, messagesCount: rawMessages.length })
+    logger.info('Digest group sent', { userId, groupName, period, messagesCount: items.length })
+    return true
   } catch (error) {
     await prisma.digest.update({
       where: { id: digest.id },
@@ -199,7 +831,8 @@ async function sendDigestGroup(
   }
 }
 
-export async function sendDigestForUser(userId: number): Promise<void> {
+// Scheduled runs only send the groups whose weekly or monthly day it is; manual sends cover every group
+export async function sendDigestForUser(userId: number, options: { scheduledOnly?: boolean } = {}): Promise<void> {
   const user = await prisma.user.findUnique({
     where: { id: userId },
     include: {
@@ -221,12 +854,12 @@ export async function sendDigestForUser(userId: number): Promise<void> {
   }
 
   const periodEnd = new Date()
-  const periodStart = new Date(periodEnd.getTime() - 24 * 60 * 60 * 1000)
   const telegramId = user.telegramId.toString()
 
   // Split channels into groups and ungrouped
   const groupedChannelIds = new Map<number, number[]>()
   const ungroupedChannelIds: number[] = []
+  const subscriptions = new Map<number, UserChannel>(user.userChannels.map((uc) => [uc.channelId, uc]))
 
   for (const uc of user.userChannels) {
     if (uc.groupId !== null) {
@@ -239,47 +872,64 @@ export async function sendDigestForUser(userId: number): Promise<void> {
   }
 
   let anySent = false
+  let anyDue = false
+  const isDue = (schedule: DigestSchedule) => !options.scheduledOnly || isDigestDay(schedule, user.timezone, periodEnd)
 
   // Send a digest for each group
   for (const group of user.channelGroups) {
     const channelIds = groupedChannelIds.get(group.id)
     if (!channelIds || channelIds.length === 0) continue
+    const schedule = resolveSchedule(user, group)
+    if (!isDue(schedule)) continue
+    anyDue = true
 
-    await sendDigestGroup(
+    const sent = await sendDigestGroup(
       userId,
       telegramId,
       channelIds,
-      periodStart,
+      await resolvePeriodStart(userId, group.id, schedule.period, periodEnd),
       periodEnd,
-      group.id,
-      group.name,
-      group.aiPrompt ?? undefined,
-      group.maxMessages,
-      group.minImportanceScore,
-      group.analyticsOnly,
+      {
+        group: { id: group.id, name: group.name, aiPrompt: group.aiPrompt ?? undefined },
+        maxMessages: group.maxMessages,
+        minImportanceScore: group.minImportanceScore,
+        analyticsOnly: group.analyticsOnly,
+        subscriptions,
+        relevanceProfile: buildRelevanceProfile(user.digestPreferences, group.aiPrompt),
+        caps: { maxPerChannel: group.maxPerChannel, maxPerCategory: group.maxPerCategory },
+        period: schedule.period,
+      },
     )
-    anySent = true
+    anySent = anySent || sent
   }
 
   // Send digest for ungrouped channels
-  if (ungroupedChannelIds.length > 0) {
-    await sendDigestGroup(
+  const userSchedule = resolveSchedule(user)
+  if (ungroupedChannelIds.length > 0 && isDue(userSchedule)) {
+    anyDue = true
+    const sent = await sendDigestGroup(
       userId,
       telegramId,
       ungroupedChannelIds,
-      periodStart,
+      await resolvePeriodStart(userId, null, userSchedule.period, periodEnd),
       periodEnd,
-      undefined,
-      undefined,
-      undefined,
-      30,
-      user.minImportanceScore,
-      user.analyticsOnly,
+      {
+        minImportanceScore: user.minImportanceScore,
+        analyticsOnly: user.analyticsOnly,
+        subscriptions,
+        relevanceProfile: buildRelevanceProfile(user.digestPreferences),
+        period: userSchedule.period,
+      },
     )
-    anySent = true
+    anySent = anySent || sent
+  }
+
+  if (!anyDue) {
+    logger.info('No digests due today', { userId })
+    return
   }
 
   if (!anySent) {
-    throw new Error('За последние 24 часа нет оценённых сообщений для дайджеста')
+    throw new Error('Нет новых оценённых сообщений с прошлого дайджеста')
   }
 }
@@ -0,0 +1,76 @@
+import { getLlmProvider, LlmProvider } from '@/lib/llm'
+import { createLogger } from '@/lib/logger'
+import { embedLocally } from './LocalProvider'
+
+const logger = createLogger('EmbeddingService')
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hash'
+const MAX_EMBED_CHARS = 2000
+const DIMENSIONS = process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10) : undefined
+
+export interface EmbeddingResult {
+  model: string
+  vectors: number[][]
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm === 0 ? vector : vector.map((v) => v / norm)
+}
+
+// Vectors are stored unit length, so their dot product is the cosine similarity
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+  let dot = 0
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i]
+  return dot
+}
+
+function modelName(provider: LlmProvider): string {
+  if (provider.kind === 'local') return LOCAL_EMBEDDING_MODEL
+  return DIMENSIONS ? `${provider.model}@${DIMENSIONS}` : provider.model
+}
+
+// The model name is stored next to each vector: vectors from different models can't be compared
+export async function currentEmbeddingModel(): Promise<string> {
+  return modelName(await getLlmProvider('embedding'))
+}
+
+export function embedTextsLocally(texts: string[]): EmbeddingResult {
+  return { model: LOCAL_EMBEDDING_MODEL, vectors: texts.map((t) => normalize(embedLocally(t))) }
+}
+
+// Every message also keeps a local vector, so when the remote model is unreachable the texts are embedded
+// locally and compared against those instead of mixing two models
+export async function embedTexts(texts: string[]): Promise<EmbeddingResult> {
+  let provider
+  try {
+    provider = await getLlmProvider('embedding')
+  } catch (err) {
+    logger.error('Failed to get LLM provider for embeddings', { error: err })
+    throw err
+  }
+  if (provider.kind === 'local') return embedTextsLocally(texts)
+
+  let response
+  try {
+    response = await provider.client.embeddings.create({
+      model: provider.model,
+      input: texts.map((t) => t.slice(0, MAX_EMBED_CHARS)),
+      ...(DIMENSIONS ? { dimensions: DIMENSIONS } : {}),
+    })
+  } catch (err) {
+    logger.warn('Embedding API call failed, using local embeddings', { error: err, count: texts.length })
+    return embedTextsLocally(texts)
+  }
+
+  const vectors = [...response.data].sort((a, b) => a.index - b.index).map((d) => normalize(d.embedding))
+  if (vectors.length !== texts.length) throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}`)
+
+  logger.debug('Texts embedded', { count: texts.length, dimensions: vectors[0]?.length })
+  return { model: modelName(provider), vectors }
+}
+
+export function embeddingInput(message: { text: string; summary: string | null }): string {
+  return message.summary ? `${message.summary}\n\n${message.text}` : message.text
+}
@@ -0,0 +1,126 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('FeedbackService')
+
+const FEEDBACK_WINDOW_DAYS = 90
+// Largest boost/penalty a single dimension can add to a 1-10 ranking score
+const MAX_BOOST = 2
+// Pseudo-votes that keep one or two reactions from swinging the ranking
+const VOTE_PRIOR = 3
+
+const FEEDBACK_REPLY_REGEX = /^\s*([+-]\s*\d+[\s,;]*)+$/
+const FEEDBACK_TOKEN_REGEX = /([+-])\s*(\d+)/g
+
+export type FeedbackDimension = 'channel' | 'category' | 'topic'
+
+export interface LearnedWeight {
+  dimension: FeedbackDimension
+  key: string
+  label: string
+  up: number
+  down: number
+  weight: number
+}
+
+export type LearnedPreferences = Map<string, LearnedWeight>
+
+type RankableMessage = Prisma.MessageGetPayload<{ include: { channel: { include: { forumTopics: true } } } }>
+
+export interface FeedbackResult {
+  up: number
+  down: number
+  unknownRanks: number[]
+}
+
+function weightKey(dimension: FeedbackDimension, key: string): string {
+  return `${dimension}:${key}`
+}
+
+function dimensionsOf(message: RankableMessage): { dimension: FeedbackDimension; key: string; label: string }[] {
+  const dims: { dimension: FeedbackDimension; key: string; label: string }[] = [
+    { dimension: 'channel', key: String(message.channelId), label: message.channel.title },
+  ]
+  if (message.category) {
+    dims.push({ dimension: 'category', key: message.category, label: message.category })
+  }
+  if (message.channel.kind === 'FORUM' && message.threadId !== null) {
+    const topic = message.channel.forumTopics.find((t) => t.topicId === message.threadId)
+    dims.push({
+      dimension: 'topic',
+      key: `${message.channelId}:${message.threadId}`,
+      label: `${message.channel.title} · ${topic?.title ?? `#${message.threadId}`}`,
+    })
+  }
+  return dims
+}
+
+// Parses a compact reply such as "+3 -7"; returns null when the text is not a feedback reply
+export function parseFeedbackReply(text: string): Map<number, number> | null {
+  if (!FEEDBACK_REPLY_REGEX.test(text)) return null
+
+  const votes = new Map<number, number>()
+  for (const match of Array.from(text.matchAll(FEEDBACK_TOKEN_REGEX))) {
+    votes.set(parseInt(match[2], 10), match[1] === '+' ? 1 : -1)
+  }
+  return votes
+}
+
+export async function recordFeedback(digestId: number, votes: Map<number, number>): Promise<FeedbackResult> {
+  const items = await prisma.digestMessage.findMany({
+    where: { digestId, rank: { in: Array.from(votes.keys()) } },
+    select: { id: true, rank: true },
+  })
+  const idByRank = new Map(items.map((item) => [item.rank, item.id]))
+
+  const result: FeedbackResult = { up: 0, down: 0, unknownRanks: [] }
+  const updates: Prisma.PrismaPromise<unknown>[] = []
+
+  votes.forEach((value, rank) => {
+    const id = idByRank.get(rank)
+    if (id === undefined) {
+      result.unknownRanks.push(rank)
+      return
+    }
+    updates.push(prisma.digestMessage.update({ where: { id }, data: { feedback: value, feedbackAt: new Date() } }))
+    if (value > 0) result.up++
+    else result.down++
+  })
+
+  await prisma.$transaction(updates)
+  logger.info('Feedback recorded', { digestId, up: result.up, down: result.down, unknown: result.unknownRanks.length })
+  return result
+}
+
+export async function getLearnedPreferences(userId: number): Promise<LearnedPreferences> {
+  const since = new Date(Date.now() - FEEDBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const rated = await prisma.digestMessage.findMany({
+    where: { digest: { userId }, feedback: { not: null }, feedbackAt: { gte: since } },
+    include: { message: { include: { channel: { include: { forumTopics: true } } } } },
+  })
+
+  const learned: LearnedPreferences = new Map()
+  for (const item of rated) {
+    for (const dim of dimensionsOf(item.message)) {
+      const key = weightKey(dim.dimension, dim.key)
+      const entry = learned.get(key) ?? { ...dim, up: 0, down: 0, weight: 0 }
+      if ((item.feedback ?? 0) > 0) entry.up++
+      else entry.down++
+      learned.set(key, entry)
+    }
+  }
+
+  learned.forEach((entry) => {
+    entry.weight = (MAX_BOOST * (entry.up - entry.down)) / (entry.up + entry.down + VOTE_PRIOR)
+  })
+  return learned
+}
+
+export function feedbackBoost(learned: LearnedPreferences, message: RankableMessage): number {
+  let boost = 0
+  for (const dim of dimensionsOf(message)) {
+    boost += learned.get(weightKey(dim.dimension, dim.key))?.weight ?? 0
+  }
+  return boost
+}
@@ -1,5 +1,8 @@
-import { getOpenRouterClient } from '@/lib/openrouter'
+import type { DigestPeriod } from '@prisma/client'
+import { getLlmProvider } from '@/lib/llm'
 import { createLogger } from '@/lib/logger'
+import { ENTITY_TYPES, cleanEntityName, entityKey, ExtractedEntity } from '@/lib/entities'
+import { answerLocally, scoreLocally, scoreRelevanceLocally, summarizeDigestLocally, summarizeThreadLocally } from './LocalProvider'
 
 const logger = createLogger('GeminiScorer')
 
@@ -8,8 +11,22 @@ export interface ScoreResult {
   category: string
   isAd: boolean
   summary: string
+  entities: ExtractedEntity[]
 }
 
+export type ScoreStatus = 'OK' | 'REPAIRED' | 'FALLBACK'
+
+export interface ScoredMessage extends ScoreResult {
+  status: ScoreStatus
+  error?: string
+}
+
+export const SCORE_CATEGORIES = ['politics', 'economy', 'technology', 'science', 'society', 'sports', 'culture', 'other']
+
+const SUMMARY_MIN_LENGTH = 10
+const SUMMARY_MAX_LENGTH = 400
+const MAX_ENTITIES = 15
+
 const SYSTEM_PROMPT = `You are a news importance evaluator. Analyze the given Telegram message and respond with JSON only.
 
 Rate the importance from 1 to 10:
@@ -18,14 +35,57 @@ Rate the importance from 1 to 10:
 - 4-6: Noteworthy developments, analysis
 - 1-3: Minor updates, routine information
 
-Categories: politics, economy, technology, science, society, sports, culture, other
+Categories (use exactly one of): politics, economy, technology, science, society, sports, culture, other
+
+Entities: the people, organisations, places and stock tickers the message is about, at most 15. Give names in their usual full form and in the nominative case (e.g. "Илон Маск", "Сбербанк", "Москва"); tickers without the $ sign.
 
 Respond with valid JSON matching this schema:
 {
   "importance": number (1-10),
   "category": string,
   "isAd": boolean,
-  "summary": string (1-2 sentences in Russian)
+  "summary": string (1-2 sentences in Russian),
+  "entities": [{ "type": "person" | "organization" | "place" | "ticker", "name": string }]
+}`
+
+const BATCH_SYSTEM_PROMPT = `You are a news importance evaluator. You are given a JSON array of Telegram messages, each with a numeric "id" and "text". Evaluate every message independently and respond with JSON only.
+
+Rate the importance from 1 to 10:
+- 10: Breaking news, major world events, crises
+- 7-9: Important political, economic, or social news
+- 4-6: Noteworthy developments, analysis
+- 1-3: Minor updates, routine information
+
+Categories (use exactly one of): politics, economy, technology, science, society, sports, culture, other
+
+Entities: the people, organisations, places and stock tickers the message is about, at most 15. Give names in their usual full form and in the nominative case (e.g. "Илон Маск", "Сбербанк", "Москва"); tickers without the $ sign.
+
+Respond with valid JSON matching this schema, with exactly one result per input message:
+{
+  "results": [
+    {
+      "id": number (the id of the input message),
+      "importance": number (1-10),
+      "category": string,
+      "isAd": boolean,
+      "summary": string (1-2 sentences in Russian),
+      "entities": [{ "type": "person" | "organization" | "place" | "ticker", "name": string }]
+    }
+  ]
+}`
+
+const RELEVANCE_PROMPT = `You rate how relevant Telegram messages are to a specific reader. You are given the reader's stated interests and a JSON array of messages, each with a numeric "id" and "text". Respond with JSON only.
+
+Rate relevance from 0 to 10:
+- 10: Exactly what the reader asked for
+- 5: Loosely related to the reader's interests
+- 0: Unrelated, or something the reader asked to avoid
+
+Respond with valid JSON matching this schema, with exactly one result per input message:
+{
+  "results": [
+    { "id": number (the id of the input message), "relevance": number (0-10) }
+  ]
 }`
 
 const DIGEST_SUMMARY_PROMPT = `Ты — аналитик новостей. Тебе дан список самых важных новостей за день из Telegram-каналов пользователя.
@@ -34,6 +94,8 @@ const DIGEST_SUMMARY_PROMPT = `Ты — аналитик новостей. Те
 - Проанализируй связи между событиями, если они есть
 - Сделай краткие выводы о том, что происходит
 - Укажи, на что стоит обратить особое внимание
+- Если у новости указано, что о ней сообщалось ранее, не пересказывай известное — сосредоточься на том, что изменилось
+- Новости с пометкой «уже было» упоминай, только если без них непонятен контекст
 
 Формат ответа: HTML для Telegram (не JSON, не Markdown). Используй только теги: <b>заголовок</b>, <i>курсив</i>. Для разделов используй <b>Заголовок</b> на отдельной строке. Для пунктов используй символ • в начале строки. Не используй # ## ### ** __ и другие Markdown-символы.`
 
@@ -44,140 +106,503 @@ const ANALYTICS_ONLY_PROMPT = `Ты — аналитик новостей. Те
 - Проанализируй взаимосвязи между событиями
 - Дай оценку значимости происходящего
 - Укажи, на что стоит обратить особое внимание в ближайшее время
+- Если у новости указано, что о ней сообщалось ранее, не пересказывай известное — сосредоточься на том, что изменилось
+- Новости с пометкой «уже было» упоминай, только если без них непонятен контекст
 - Для каждой упомянутой новости вставь HTML-ссылку на оригинал в формате: <a href="ССЫЛКА">краткий текст</a>
 
 ВАЖНО: Это единственное сообщение, которое получит пользователь — без отдельного списка новостей. Поэтому аналитика должна быть подробной и самодостаточной, со ссылками на источники прямо в тексте.
 
 Формат ответа: HTML для Telegram (не JSON, не Markdown). Используй только теги: <b>заголовок</b>, <i>курсив</i>, <a href="...">текст</a>. Для разделов используй <b>Заголовок</b> на отдельной строке. Для пунктов используй символ • в начале строки. Не используй # ## ### ** __ и другие Markdown-символы.`
 
+const WEEKLY_SUMMARY_PROMPT = `Ты — аналитик новостей. Тебе дан список главных историй за неделю из Telegram-каналов пользователя. У каждой истории указано, сколько раз о ней писали за неделю.
+Напиши аналитическое резюме недели на русском языке:
+- Выдели 3-6 главных тем недели; истории, о которых писали чаще, обычно важнее
+- Для каждой темы опиши, как она развивалась в течение недели и чем закончилась к её концу
+- Проанализируй связи между темами
+- Отдели устойчивые тенденции от разовых событий
+- Укажи, чего ждать на следующей неделе
+- Не пересказывай новости по одной — обобщай
+
+Формат ответа: HTML для Telegram (не JSON, не Markdown). Используй только теги: <b>заголовок</b>, <i>курсив</i>. Для разделов используй <b>Заголовок</b> на отдельной строке. Для пунктов используй символ • в начале строки. Не используй # ## ### ** __ и другие Markdown-символы.`
+
+const MONTHLY_SUMMARY_PROMPT = `Ты — аналитик новостей. Тебе дан список главных историй за месяц из Telegram-каналов пользователя. У каждой истории указано, сколько раз о ней писали за месяц.
+Напиши обзор месяца на русском языке:
+- Выдели 3-7 ключевых тем месяца; истории, о которых писали чаще, обычно важнее
+- Для каждой темы: с чего всё началось, как менялось и к чему пришло к концу месяца
+- Выдели главные тенденции и сдвиги, которые заметны только на отрезке в месяц
+- Отметь темы, которые набирали или теряли внимание
+- Укажи, за чем стоит следить в следующем месяце
+- Не пересказывай новости по одной — обобщай
+
+Формат ответа: HTML для Telegram (не JSON, не Markdown). Используй только теги: <b>заголовок</b>, <i>курсив</i>. Для разделов используй <b>Заголовок</b> на отдельной строке. Для пунктов используй символ • в начале строки. Не используй # ## ### ** __ и другие Markdown-символы.`
+
+const WEEKLY_ANALYTICS_ONLY_PROMPT = `Ты — аналитик новостей. Тебе дан список главных историй за неделю из Telegram-каналов пользователя. У каждой истории указано, сколько раз о ней писали за неделю, и дана ссылка на оригинал.
+Напиши развёрнутый аналитический обзор недели на русском языке:
+- Выдели и подробно разбери 3-7 главных тем недели; истории, о которых писали чаще, обычно важнее
+- Для каждой темы: суть, как она развивалась в течение недели, возможные последствия
+- Проанализируй взаимосвязи между темами
+- Отдели устойчивые тенденции от разовых событий
+- Укажи, чего ждать на следующей неделе
+- Для каждой упомянутой истории вставь HTML-ссылку на оригинал в формате: <a href="ССЫЛКА">краткий текст</a>
+
+ВАЖНО: Это единственное сообщение, которое получит пользователь — без отдельного списка новостей. Поэтому обзор должен быть подробным и самодостаточным, со ссылками на источники прямо в тексте.
+
+Формат ответа: HTML для Telegram (не JSON, не Markdown). Используй только теги: <b>заголовок</b>, <i>курсив</i>, <a href="...">текст</a>. Для разделов используй <b>Заголовок</b> на отдельной строке. Для пунктов используй символ • в начале строки. Не используй # ## ### ** __ и другие Markdown-символы.`
+
+const MONTHLY_ANALYTICS_ONLY_PROMPT = `Ты — аналитик новостей. Тебе дан список главных историй за месяц из Telegram-каналов пользователя. У каждой истории указано, сколько раз о ней писали за месяц, и дана ссылка на оригинал.
+Напиши развёрнутый обзор месяца на русском языке:
+- Выдели и подробно разбери 3-7 ключевых тем месяца; истории, о которых писали чаще, обычно важнее
+- Для каждой темы: с чего всё началось, как менялось, к чему пришло к концу месяца и что это значит
+- Выдели главные тенденции и сдвиги, которые заметны только на отрезке в месяц
+- Отметь темы, которые набирали или теряли внимание
+- Укажи, за чем стоит следить в следующем месяце
+- Для каждой упомянутой истории вставь HTML-ссылку на оригинал в формате: <a href="ССЫЛКА">краткий текст</a>
+
+ВАЖНО: Это единственное сообщение, которое получит пользователь — без отдельного списка новостей. Поэтому обзор должен быть подробным и самодостаточным, со ссылками на источники прямо в тексте.
+
+Формат ответа: HTML для Telegram (не JSON, не Markdown). Используй только теги: <b>заголовок</b>, <i>курсив</i>, <a href="...">текст</a>. Для разделов используй <b>Заголовок</b> на отдельной строке. Для пунктов используй символ • в начале строки. Не используй # ## ### ** __ и другие Markdown-символы.`
+
+const DIGEST_SUMMARY_PROMPTS: Record<DigestPeriod, string> = {
+  DAILY: DIGEST_SUMMARY_PROMPT,
+  WEEKLY: WEEKLY_SUMMARY_PROMPT,
+  MONTHLY: MONTHLY_SUMMARY_PROMPT,
+}
+
+const ANALYTICS_ONLY_PROMPTS: Record<DigestPeriod, string> = {
+  DAILY: ANALYTICS_ONLY_PROMPT,
+  WEEKLY: WEEKLY_ANALYTICS_ONLY_PROMPT,
+  MONTHLY: MONTHLY_ANALYTICS_ONLY_PROMPT,
+}
+
+const NEWS_BLOCK_TITLES: Record<DigestPeriod, string> = {
+  DAILY: 'Новости дня',
+  WEEKLY: 'Главные истории недели',
+  MONTHLY: 'Главные истории месяца',
+}
+
+const THREAD_SUMMARY_PROMPT = `Ты — аналитик. Тебе дана ветка обсуждения из Telegram-группы: сообщения участников в хронологическом порядке.
+Кратко перескажи обсуждение на русском языке в 1-2 предложениях: о чём говорили, к каким выводам или решениям пришли, какие были разногласия.
+Отвечай простым текстом, без Markdown и HTML.`
+
+const ANSWER_PROMPT = `Ты — помощник, который отвечает на вопросы по новостям из Telegram-каналов пользователя. Тебе дан вопрос и пронумерованный список найденных сообщений с датами и названиями каналов.
+Ответь на вопрос на русском языке, опираясь только на эти сообщения:
+- Отвечай по существу, 2-6 предложений
+- После каждого утверждения ставь номер источника в квадратных скобках, например [2] или [1][3]
+- Если сообщения противоречат друг другу, скажи об этом
+- Если в сообщениях нет ответа, так и скажи — не додумывай
+Отвечай простым текстом, без Markdown и HTML.`
+
+export interface AnswerSource {
+  channelTitle: string
+  postedAt: Date
+  text: string
+}
+
+export interface ThreadSummaryInput {
+  authorName: string | null
+  text: string
+}
+
+export interface BatchScoreInput {
+  id: number
+  text: string
+}
+
 export interface DigestSummaryInput {
   category: string
   channelTitle: string
   summary: string
   score: number
   messageLink?: string
+  storyStatus?: 'NEW' | 'UPDATE' | 'COVERED'
+  previously?: string[]
+  coverage?: number
+}
+
+function storyNote(m: DigestSummaryInput): string {
+  if (m.storyStatus === 'COVERED') return ' [уже было в прошлых дайджестах]'
+  if (m.storyStatus === 'UPDATE' && m.previously?.length) return ` [развитие истории; ранее сообщалось: ${m.previously.join(' / ')}]`
+  return ''
 }
 
-export async function generateAnalyticsOnlySummary(messages: DigestSummaryInput[], customPrompt?: string): Promise<string> {
-  let client
+function coverageNote(m: DigestSummaryInput): string {
+  return m.coverage && m.coverage > 1 ? ` (публикаций: ${m.coverage})` : ''
+}
+
+export async function generateAnalyticsOnlySummary(messages: DigestSummaryInput[], customPrompt?: string, period: DigestPeriod = 'DAILY'): Promise<string> {
+  let provider
   try {
-    client = getOpenRouterClient()
+    provider = await getLlmProvider('summary')
   } catch (err) {
-    logger.error('Failed to get OpenRouter client for analytics-only summary', { error: err })
+    logger.error('Failed to get LLM provider for analytics-only summary', { error: err })
     throw err
   }
+  if (provider.kind === 'local') return summarizeDigestLocally(messages, true)
 
   const newsBlock = messages
-    .map((m, i) => `${i + 1}. [${m.category}] ${m.channelTitle}: ${m.summary} (важность: ${m.score.toFixed(1)})${m.messageLink ? ` [ссылка: ${m.messageLink}]` : ''}`)
+    .map((m, i) => `${i + 1}. [${m.category}] ${m.channelTitle}: ${m.summary} (важность: ${m.score.toFixed(1)})${coverageNote(m)}${storyNote(m)}${m.messageLink ? ` [ссылка: ${m.messageLink}]` : ''}`)
     .join('\n')
 
   const systemPrompt = customPrompt
-    ? `${ANALYTICS_ONLY_PROMPT}\n\nДополнительные инструкции: ${customPrompt}`
-    : ANALYTICS_ONLY_PROMPT
+    ? `${ANALYTICS_ONLY_PROMPTS[period]}\n\nДополнительные инструкции: ${customPrompt}`
+    : ANALYTICS_ONLY_PROMPTS[period]
 
   let completion
   try {
-    completion = await client.chat.completions.create({
-      model: 'google/gemini-3-flash-preview',
+    completion = await provider.client.chat.completions.create({
+      model: provider.model,
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: `Новости дня:\n${newsBlock}` },
+        { role: 'user', content: `${NEWS_BLOCK_TITLES[period]}:\n${newsBlock}` },
       ],
     })
   } catch (err) {
-    logger.error('OpenRouter API call failed for analytics-only summary', { error: err })
+    logger.error('LLM API call failed for analytics-only summary', { error: err })
     throw err
   }
 
   const result = completion.choices[0].message.content ?? ''
-  logger.info('Analytics-only summary generated', { length: result.length })
+  logger.info('Analytics-only summary generated', { period, length: result.length })
   return result
 }
 
-export async function generateDigestSummary(messages: DigestSummaryInput[], customPrompt?: string): Promise<string> {
-  let client
+export async function generateDigestSummary(messages: DigestSummaryInput[], customPrompt?: string, period: DigestPeriod = 'DAILY'): Promise<string> {
+  let provider
   try {
-    client = getOpenRouterClient()
+    provider = await getLlmProvider('summary')
   } catch (err) {
-    logger.error('Failed to get OpenRouter client for digest summary', { error: err })
+    logger.error('Failed to get LLM provider for digest summary', { error: err })
     throw err
   }
+  if (provider.kind === 'local') return summarizeDigestLocally(messages, false)
 
   const newsBlock = messages
-    .map((m, i) => `${i + 1}. [${m.category}] ${m.channelTitle}: ${m.summary} (важность: ${m.score.toFixed(1)})`)
+    .map((m, i) => `${i + 1}. [${m.category}] ${m.channelTitle}: ${m.summary} (важность: ${m.score.toFixed(1)})${coverageNote(m)}${storyNote(m)}`)
     .join('\n')
 
   const systemPrompt = customPrompt
-    ? `${DIGEST_SUMMARY_PROMPT}\n\nДополнительные инструкции: ${customPrompt}`
-    : DIGEST_SUMMARY_PROMPT
+    ? `${DIGEST_SUMMARY_PROMPTS[period]}\n\nДополнительные инструкции: ${customPrompt}`
+    : DIGEST_SUMMARY_PROMPTS[period]
 
   let completion
   try {
-    completion = await client.chat.completions.create({
-      model: 'google/gemini-3-flash-preview',
+    completion = await provider.client.chat.completions.create({
+      model: provider.model,
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: `Новости дня:\n${newsBlock}` },
+        { role: 'user', content: `${NEWS_BLOCK_TITLES[period]}:\n${newsBlock}` },
       ],
     })
   } catch (err) {
-    logger.error('OpenRouter API call failed for digest summary', { error: err })
+    logger.error('LLM API call failed for digest summary', { error: err })
     throw err
   }
 
   const result = completion.choices[0].message.content ?? ''
-  logger.info('Digest summary generated', { length: result.length })
+  logger.info('Digest summary generated', { period, length: result.length })
   return result
 }
 
-export async function scoreMessage(text: string): Promise<ScoreResult> {
+export async function summarizeThread(messages: ThreadSummaryInput[], chatTitle: string): Promise<string> {
+  let provider
+  try {
+    provider = await getLlmProvider('summary')
+  } catch (err) {
+    logger.error('Failed to get LLM provider for thread summary', { error: err })
+    throw err
+  }
+  if (provider.kind === 'local') return summarizeThreadLocally(messages)
+
+  const threadBlock = messages
+    .map((m) => `${m.authorName ?? 'Участник'}: ${m.text.slice(0, 500)}`)
+    .join('\n')
+
+  let completion
+  try {
+    completion = await provider.client.chat.completions.create({
+      model: provider.model,
+      messages: [
+        { role: 'system', content: THREAD_SUMMARY_PROMPT },
+        { role: 'user', content: `Группа: ${chatTitle}\n\n${threadBlock}` },
+      ],
+    })
+  } catch (err) {
+    logger.error('LLM API call failed for thread summary', { error: err })
+    throw err
+  }
+
+  const result = completion.choices[0].message.content ?? ''
+  logger.info('Thread summary generated', { messages: messages.length, length: result.length })
+  return result.trim()
+}
+
+// Sources are numbered from 1 in the order given; the answer cites them as [n]
+export async function answerQuestion(question: string, sources: AnswerSource[]): Promise<string> {
+  let provider
+  try {
+    provider = await getLlmProvider('summary')
+  } catch (err) {
+    logger.error('Failed to get LLM provider for question answering', { error: err })
+    throw err
+  }
+  if (provider.kind === 'local') return answerLocally(sources)
+
+  const sourcesBlock = sources
+    .map((s, i) => `[${i + 1}] ${s.postedAt.toISOString().slice(0, 10)}, ${s.channelTitle}: ${s.text.slice(0, 800)}`)
+    .join('\n\n')
+
+  let completion
+  try {
+    completion = await provider.client.chat.completions.create({
+      model: provider.model,
+      messages: [
+        { role: 'system', content: ANSWER_PROMPT },
+        { role: 'user', content: `Вопрос: ${question}\n\nСообщения:\n${sourcesBlock}` },
+      ],
+    })
+  } catch (err) {
+    logger.error('LLM API call failed for question answering', { error: err })
+    throw err
+  }
+
+  const result = completion.choices[0].message.content ?? ''
+  logger.info('Question answered', { sources: sources.length, length: result.length })
+  return result.trim()
+}
+
+export async function scoreMessage(text: string): Promise<ScoredMessage> {
   const textPreview = text.slice(0, 80).replace(/\n/g, ' ')
   logger.info('Scoring message', { textPreview, textLength: text.length })
 
-  let client
+  let provider
   try {
-    client = getOpenRouterClient()
+    provider = await getLlmProvider('scoring')
   } catch (err) {
-    logger.error('Failed to get OpenRouter client (OPENROUTER_API_KEY missing?)', { error: err })
+    logger.error('Failed to get LLM provider for scoring', { error: err })
     throw err
   }
+  if (provider.kind === 'local') return { ...scoreLocally(text), status: 'OK' }
 
   let completion
   try {
-    completion = await client.chat.completions.create({
-      model: 'google/gemini-3-flash-preview',
+    completion = await provider.client.chat.completions.create({
+      model: provider.model,
       response_format: { type: 'json_object' },
       messages: [
         { role: 'system', content: SYSTEM_PROMPT },
         { role: 'user', content: `Message:\n${text.slice(0, 2000)}` },
       ],
     })
-    logger.debug('OpenRouter API call succeeded')
+    logger.debug('LLM API call succeeded')
   } catch (err) {
-    logger.error('OpenRouter API call failed', { error: err })
+    logger.error('LLM API call failed', { error: err })
     throw err
   }
 
   const responseText = completion.choices[0].message.content ?? ''
-  logger.debug('OpenRouter raw response', { responseText })
+  logger.debug('LLM raw response', { responseText })
+
+  const first = validateScoreResult(responseText)
+  if (first.ok) {
+    logger.info('Message scored', { score: first.result.importance, category: first.result.category, isAd: first.result.isAd })
+    return { ...first.result, status: 'OK' }
+  }
+
+  logger.warn('Score response failed validation, asking for a repair', { error: first.error, responseText })
 
+  let repairText = ''
   try {
-    const parsed = JSON.parse(responseText) as ScoreResult
-    const scored: ScoreResult = {
-      importance: Math.min(10, Math.max(1, parsed.importance)),
-      category: parsed.category ?? 'other',
-      isAd: parsed.isAd ?? false,
-      summary: parsed.summary ?? '',
-    }
-    logger.info('Message scored', { score: scored.importance, category: scored.category, isAd: scored.isAd })
-    return scored
+    const repair = await provider.client.chat.completions.create({
+      model: provider.model,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: `Message:\n${text.slice(0, 2000)}` },
+        { role: 'assistant', content: responseText },
+        { role: 'user', content: `Your response is invalid: ${first.error}. Respond again with corrected JSON only.` },
+      ],
+    })
+    repairText = repair.choices[0].message.content ?? ''
+  } catch (err) {
+    logger.error('LLM API call failed for score repair', { error: err })
+    throw err
+  }
+
+  const repaired = validateScoreResult(repairText)
+  if (repaired.ok) {
+    logger.info('Message scored after repair', { score: repaired.result.importance, category: repaired.result.category })
+    return { ...repaired.result, status: 'REPAIRED' }
+  }
+
+  // Heuristic score instead of a fixed middle value, flagged so it can be told apart from model output
+  logger.error('Score repair failed validation, using fallback', { error: repaired.error, responseText: repairText })
+  return { ...scoreLocally(text), status: 'FALLBACK', error: repaired.error }
+}
+
+type ValidationResult = { ok: true; result: ScoreResult } | { ok: false; error: string }
+
+// Entities are a bonus: malformed items are dropped instead of failing the whole score
+function parseEntities(value: unknown): ExtractedEntity[] {
+  if (!Array.isArray(value)) return []
+  const entities = new Map<string, ExtractedEntity>()
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) continue
+    const { type, name } = item as Record<string, unknown>
+    if (typeof type !== 'string' || typeof name !== 'string') continue
+    const entityType = ENTITY_TYPES.find((t) => t === type.toUpperCase())
+    const cleaned = entityType && cleanEntityName(entityType, name)
+    if (entityType && cleaned) entities.set(`${entityType}:${entityKey(cleaned)}`, { type: entityType, name: cleaned })
+  }
+  return Array.from(entities.values()).slice(0, MAX_ENTITIES)
+}
+
+function validateScoreFields(item: Record<string, unknown>): ValidationResult {
+  const { importance, category, isAd, summary, entities } = item
+
+  if (typeof importance !== 'number' || !Number.isFinite(importance)) return { ok: false, error: 'importance must be a number' }
+  if (importance < 1 || importance > 10) return { ok: false, error: 'importance must be between 1 and 10' }
+  if (typeof category !== 'string' || !SCORE_CATEGORIES.includes(category)) {
+    return { ok: false, error: `category must be one of: ${SCORE_CATEGORIES.join(', ')}` }
+  }
+  if (typeof isAd !== 'boolean') return { ok: false, error: 'isAd must be a boolean' }
+  if (typeof summary !== 'string') return { ok: false, error: 'summary must be a string' }
+  if (entities !== undefined && !Array.isArray(entities)) return { ok: false, error: 'entities must be an array' }
+
+  const trimmed = summary.trim()
+  if (trimmed.length < SUMMARY_MIN_LENGTH || trimmed.length > SUMMARY_MAX_LENGTH) {
+    return { ok: false, error: `summary must be ${SUMMARY_MIN_LENGTH}-${SUMMARY_MAX_LENGTH} characters long` }
+  }
+  if (!/[а-яё]/i.test(trimmed)) return { ok: false, error: 'summary must be written in Russian' }
+
+  return { ok: true, result: { importance, category, isAd, summary: trimmed, entities: parseEntities(entities) } }
+}
+
+function validateScoreResult(responseText: string): ValidationResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(responseText)
   } catch {
-    logger.error('Failed to parse OpenRouter JSON response', { responseText })
-    return {
-      importance: 5,
-      category: 'other',
-      isAd: false,
-      summary: text.slice(0, 200),
-    }
+    return { ok: false, error: 'response is not valid JSON' }
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { ok: false, error: 'response must be a JSON object' }
   }
+  return validateScoreFields(parsed as Record<string, unknown>)
+}
+
+function parseBatchItem(value: unknown): (ScoreResult & { id: number }) | null {
+  if (typeof value !== 'object' || value === null) return null
+  const item = value as Record<string, unknown>
+  if (typeof item.id !== 'number') return null
+
+  const validated = validateScoreFields(item)
+  return validated.ok ? { id: item.id, ...validated.result } : null
+}
+
+// Items missing from the returned map failed validation and should be scored one by one
+export async function scoreMessagesBatch(items: BatchScoreInput[]): Promise<Map<number, ScoreResult>> {
+  logger.info('Scoring message batch', { size: items.length })
+
+  let provider
+  try {
+    provider = await getLlmProvider('scoring')
+  } catch (err) {
+    logger.error('Failed to get LLM provider for scoring', { error: err })
+    throw err
+  }
+  if (provider.kind === 'local') return new Map(items.map((item) => [item.id, scoreLocally(item.text)]))
+
+  const payload = items.map((item) => ({ id: item.id, text: item.text.slice(0, 2000) }))
+
+  let completion
+  try {
+    completion = await provider.client.chat.completions.create({
+      model: provider.model,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: BATCH_SYSTEM_PROMPT },
+        { role: 'user', content: `Messages:\n${JSON.stringify(payload)}` },
+      ],
+    })
+  } catch (err) {
+    logger.error('LLM API call failed for batch scoring', { error: err })
+    throw err
+  }
+
+  const responseText = completion.choices[0].message.content ?? ''
+  logger.debug('LLM raw batch response', { responseText })
+
+  const results = new Map<number, ScoreResult>()
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(responseText)
+  } catch {
+    logger.error('Failed to parse LLM batch JSON response', { responseText })
+    return results
+  }
+
+  const requested = new Set(items.map((item) => item.id))
+  const rawResults = (parsed as { results?: unknown }).results
+  for (const value of Array.isArray(rawResults) ? rawResults : []) {
+    const item = parseBatchItem(value)
+    if (!item || !requested.has(item.id) || results.has(item.id)) continue
+    const { id, ...score } = item
+    results.set(id, score)
+  }
+
+  logger.info('Message batch scored', { size: items.length, valid: results.size })
+  return results
+}
+
+// Items missing from the returned map could not be rated and should be ranked by importance alone
+export async function scoreRelevance(interests: string, items: BatchScoreInput[]): Promise<Map<number, number>> {
+  logger.info('Scoring relevance', { size: items.length })
+
+  let provider
+  try {
+    provider = await getLlmProvider('scoring')
+  } catch (err) {
+    logger.error('Failed to get LLM provider for relevance scoring', { error: err })
+    throw err
+  }
+  if (provider.kind === 'local') return new Map(items.map((item) => [item.id, scoreRelevanceLocally(interests, item.text)]))
+
+  const payload = items.map((item) => ({ id: item.id, text: item.text.slice(0, 500) }))
+
+  let completion
+  try {
+    completion = await provider.client.chat.completions.create({
+      model: provider.model,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: RELEVANCE_PROMPT },
+        { role: 'user', content: `Reader interests:\n${interests.slice(0, 2000)}\n\nMessages:\n${JSON.stringify(payload)}` },
+      ],
+    })
+  } catch (err) {
+    logger.error('LLM API call failed for relevance scoring', { error: err })
+    throw err
+  }
+
+  const responseText = completion.choices[0].message.content ?? ''
+  const results = new Map<number, number>()
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(responseText)
+  } catch {
+    logger.error('Failed to parse LLM relevance JSON response', { responseText })
+    return results
+  }
+
+  const requested = new Set(items.map((item) => item.id))
+  const rawResults = (parsed as { results?: unknown }).results
+  for (const value of Array.isArray(rawResults) ? rawResults : []) {
+    const { id, relevance } = (value ?? {}) as { id?: unknown; relevance?: unknown }
+    if (typeof id !== 'number' || !requested.has(id)) continue
+    if (typeof relevance !== 'number' || !Number.isFinite(relevance) || relevance < 0 || relevance > 10) continue
+    results.set(id, relevance)
+  }
+
+  logger.info('Relevance scored', { size: items.length, valid: results.size })
+  return results
 }
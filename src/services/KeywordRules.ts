@@ -0,0 +1,176 @@
+import { KeywordRule, KeywordRuleAction, KeywordRuleKind } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('KeywordRules')
+
+const MAX_PATTERN_LENGTH = 200
+export const MIN_RULE_BOOST = 0.5
+export const MAX_RULE_BOOST = 5
+export const KEYWORD_RULE_KINDS: KeywordRuleKind[] = ['KEYWORD', 'REGEX']
+export const KEYWORD_RULE_ACTIONS: KeywordRuleAction[] = ['INCLUDE', 'EXCLUDE', 'BOOST']
+
+// Common Russian inflection endings, longest first, so "кризиса" and "кризисом" both match "кризис"
+const RUSSIAN_ENDINGS = [
+  'иями', 'ями', 'ами', 'ией', 'ием', 'иях', 'ого', 'его', 'ому', 'ему', 'ыми', 'ими',
+  'ой', 'ей', 'ий', 'ый', 'ая', 'яя', 'ое', 'ее', 'ые', 'ие', 'ую', 'юю', 'ом', 'ем',
+  'ам', 'ям', 'ах', 'ях', 'ов', 'ев', 'ью', 'ия', 'ья',
+  'а', 'я', 'ы', 'и', 'у', 'ю', 'е', 'о', 'ь', 'й',
+]
+const MIN_STEM_LENGTH = 3
+
+export interface CompiledRule {
+  rule: KeywordRule
+  regex: RegExp
+}
+
+export interface RuleVerdict {
+  include: boolean
+  exclude: boolean
+  boost: number
+}
+
+function normalize(text: string): string {
+  return text.replace(/ё/g, 'е').replace(/Ё/g, 'Е')
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function wordPattern(word: string): string {
+  if (!/[а-я]/.test(word)) return `${escapeRegex(word)}s?`
+  const ending = RUSSIAN_ENDINGS.find((e) => word.endsWith(e) && word.length - e.length >= MIN_STEM_LENGTH)
+  const stem = ending ? word.slice(0, -ending.length) : word
+  return `${escapeRegex(stem)}\\p{L}*`
+}
+
+interface GroupFrame {
+  repeats: boolean // contains a quantifier or an alternation
+}
+
+// Rules run against every incoming post, so patterns that can backtrack exponentially are refused:
+// a repeated group may not itself contain a quantifier or an alternation, e.g. (a+)+ or (\w|\d)*,
+// and backreferences are not allowed
+function isBacktrackingProne(pattern: string): boolean {
+  const stack: GroupFrame[] = [{ repeats: false }]
+  let closed: GroupFrame | null = null
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]
+    const group = closed
+    closed = null
+
+    if (ch === '\\') {
+      const next = pattern[i + 1] ?? ''
+      if (/[1-9]/.test(next) || (next === 'k' && pattern[i + 2] === '<')) return true
+      i++
+    } else if (ch === '[') {
+      i++
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++
+        i++
+      }
+    } else if (ch === '(') {
+      stack.push({ repeats: false })
+      if (pattern[i + 1] === '?') i++
+    } else if (ch === ')') {
+      if (stack.length > 1) closed = stack.pop()!
+      if (closed?.repeats) stack[stack.length - 1].repeats = true
+    } else if (ch === '|') {
+      stack[stack.length - 1].repeats = true
+    } else if (ch === '*' || ch === '+' || ch === '?' || ch === '{') {
+      const exact = ch === '{' && /^\{\d+\}/.test(pattern.slice(i))
+      if (group?.repeats && ch !== '?' && !exact) return true
+      if (!exact) stack[stack.length - 1].repeats = true
+      if (ch === '{') i = Math.max(i, pattern.indexOf('}', i))
+      if (pattern[i + 1] === '?' || pattern[i + 1] === '+') i++
+    }
+  }
+  return false
+}
+
+// Matched text has ё folded to е, so a regex's ё outside character classes becomes [её]; character
+// classes and escapes are left exactly as the user wrote them
+function foldYo(pattern: string): string {
+  let result = ''
+  let inClass = false
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]
+    if (ch === '\\') {
+      result += ch + (pattern[i + 1] ?? '')
+      i++
+    } else if (inClass) {
+      if (ch === ']') inClass = false
+      result += ch
+    } else if (ch === '[') {
+      inClass = true
+      result += ch
+    } else {
+      result += ch === 'ё' ? '[её]' : ch === 'Ё' ? '[ЕЁ]' : ch
+    }
+  }
+  return result
+}
+
+// Keywords match any inflection of each word; a phrase matches its words in order
+export function compilePattern(kind: KeywordRuleKind, pattern: string): RegExp {
+  if (kind === 'REGEX') {
+    if (isBacktrackingProne(pattern)) throw new Error('Regular expression may backtrack catastrophically')
+    return new RegExp(foldYo(pattern), 'iu')
+  }
+
+  const words = normalize(pattern.toLowerCase()).match(/[\p{L}\p{N}]+/gu) ?? []
+  const body = words.map(wordPattern).join('[^\\p{L}\\p{N}]+')
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'iu')
+}
+
+export function validatePattern(kind: KeywordRuleKind, pattern: string): string | null {
+  const trimmed = pattern.trim()
+  if (!trimmed) return 'pattern is required'
+  if (trimmed.length > MAX_PATTERN_LENGTH) return `pattern must be at most ${MAX_PATTERN_LENGTH} characters`
+  if (kind === 'KEYWORD' && !/[\p{L}\p{N}]/u.test(trimmed)) return 'keyword must contain letters or digits'
+  if (kind === 'REGEX' && isBacktrackingProne(trimmed)) {
+    return 'regular expression must not repeat a group that contains a quantifier or alternation, or use backreferences'
+  }
+  try {
+    compilePattern(kind, trimmed)
+  } catch {
+    return 'invalid regular expression'
+  }
+  return null
+}
+
+export function matchesPattern(regex: RegExp, text: string): boolean {
+  return regex.test(normalize(text))
+}
+
+// User-wide rules apply to every digest; group rules only to that group's digest
+export async function loadRules(userId: number, groupId: number | null): Promise<CompiledRule[]> {
+  const rules = await prisma.keywordRule.findMany({
+    where: { userId, OR: [{ groupId: null }, ...(groupId !== null ? [{ groupId }] : [])] },
+  })
+
+  const compiled: CompiledRule[] = []
+  for (const rule of rules) {
+    try {
+      compiled.push({ rule, regex: compilePattern(rule.kind, rule.pattern) })
+    } catch (err) {
+      logger.warn('Skipping keyword rule with invalid pattern', { ruleId: rule.id, error: err })
+    }
+  }
+  return compiled
+}
+
+// An exclude match wins over an include match: dropping spam is the safer mistake
+export function evaluateRules(rules: CompiledRule[], text: string): RuleVerdict {
+  const verdict: RuleVerdict = { include: false, exclude: false, boost: 0 }
+  for (const { rule, regex } of rules) {
+    if (!matchesPattern(regex, text)) continue
+    if (rule.action === 'EXCLUDE') verdict.exclude = true
+    else if (rule.action === 'INCLUDE') verdict.include = true
+    else verdict.boost += rule.boost
+  }
+  if (verdict.exclude) verdict.include = false
+  return verdict
+}
@@ -0,0 +1,161 @@
+import type { ScoreResult, DigestSummaryInput, ThreadSummaryInput, AnswerSource } from './GeminiScorer'
+import type { ExtractedEntity } from '@/lib/entities'
+
+// Offline heuristics behind LLM_PROVIDER=local: deterministic output for dev and CI, no network
+
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  politics: ['правительств', 'министр', 'выбор', 'парламент', 'госдум', 'санкци', 'президент', 'president', 'election', 'minister', 'government', 'sanction'],
+  economy: ['рубл', 'доллар', 'инфляц', 'ставк', 'банк', 'нефт', 'бирж', 'экономик', 'бюджет', 'economy', 'inflation', 'market', 'bank', 'oil'],
+  technology: ['технолог', 'искусственн', 'нейросет', 'смартфон', 'приложени', 'стартап', 'apple', 'google', 'openai', ' ai ', 'software', 'startup'],
+  science: ['учён', 'учен', 'исследован', 'космос', 'наса', 'открыти', 'science', 'research', 'nasa', 'study'],
+  sports: ['матч', 'футбол', 'хоккей', 'чемпионат', 'олимпи', 'турнир', 'match', 'football', 'championship', 'tournament'],
+  culture: ['фильм', 'кино', 'музык', 'выставк', 'театр', 'концерт', 'книг', 'film', 'movie', 'music', 'concert'],
+  society: ['школ', 'больниц', 'пенси', 'закон', 'суд', 'полиц', 'жител', 'school', 'hospital', 'court', 'police'],
+}
+
+const URGENT_WORDS = ['срочно', 'молния', 'экстренн', 'взрыв', 'погиб', 'катастроф', 'атак', 'breaking', 'urgent', 'killed', 'explosion']
+const NOTABLE_WORDS = ['заявил', 'объявил', 'впервые', 'рекорд', 'официально', 'announced', 'first', 'record', 'official']
+const AD_WORDS = ['реклама', 'промокод', 'скидк', 'erid', 'спонсор', 'партнёрск', 'партнерск', '#ad', 'promo', 'sponsor']
+
+const CATEGORY_TITLES: Record<string, string> = {
+  politics: 'Политика',
+  economy: 'Экономика',
+  technology: 'Технологии',
+  science: 'Наука',
+  society: 'Общество',
+  sports: 'Спорт',
+  culture: 'Культура',
+  other: 'Разное',
+}
+
+function countMatches(lower: string, words: string[]): number {
+  return words.filter((w) => lower.includes(w)).length
+}
+
+function firstSentences(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  const sentences = clean.match(/[^.!?…]+[.!?…]*/g) ?? [clean]
+  let result = ''
+  for (const sentence of sentences) {
+    if (result && (result + sentence).length > maxLength) break
+    result += sentence
+  }
+  return (result || clean).slice(0, maxLength).trim()
+}
+
+// Without a model only cashtags like $AAPL are reliable enough to index
+function cashtags(text: string): ExtractedEntity[] {
+  const tickers = new Set((text.match(/(?<![\p{L}\p{N}$])\$[A-Z][A-Z0-9]{0,5}(?![\p{L}\p{N}])/gu) ?? []).map((t) => t.slice(1)))
+  return Array.from(tickers).map((name): ExtractedEntity => ({ type: 'TICKER', name }))
+}
+
+export function scoreLocally(text: string): ScoreResult {
+  const lower = ` ${text.toLowerCase()} `
+
+  let category = 'other'
+  let bestMatches = 0
+  for (const [name, words] of Object.entries(CATEGORY_KEYWORDS)) {
+    const matches = countMatches(lower, words)
+    if (matches > bestMatches) {
+      category = name
+      bestMatches = matches
+    }
+  }
+
+  const isAd = countMatches(lower, AD_WORDS) >= 1
+  let importance = 3
+  importance += Math.min(3, countMatches(lower, URGENT_WORDS) * 2)
+  importance += Math.min(2, countMatches(lower, NOTABLE_WORDS))
+  importance += Math.min(1, bestMatches / 3)
+  if (text.length > 600) importance += 1
+  if (isAd) importance = 1
+
+  return {
+    importance: Math.round(Math.min(10, Math.max(1, importance)) * 10) / 10,
+    category,
+    isAd,
+    summary: firstSentences(text, 200),
+    entities: cashtags(text),
+  }
+}
+
+function stems(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []
+  return new Set(words.map((w) => w.slice(0, 5)))
+}
+
+// Share of the interest keywords found in the text, scaled to 0-10
+export function scoreRelevanceLocally(interests: string, text: string): number {
+  const wanted = stems(interests)
+  if (wanted.size === 0) return 5
+  const present = stems(text)
+  let hits = 0
+  wanted.forEach((stem) => {
+    if (present.has(stem)) hits++
+  })
+  return Math.round(Math.min(10, (hits / Math.min(wanted.size, 5)) * 10) * 10) / 10
+}
+
+const LOCAL_EMBEDDING_SIZE = 256
+
+function hashStem(stem: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < stem.length; i++) {
+    hash = Math.imul(hash ^ stem.charCodeAt(i), 16777619)
+  }
+  return hash >>> 0
+}
+
+// Hashed bag of word stems: no semantics, but close enough for texts that share vocabulary
+export function embedLocally(text: string): number[] {
+  const vector = new Array<number>(LOCAL_EMBEDDING_SIZE).fill(0)
+  stems(text).forEach((stem) => {
+    const hash = hashStem(stem)
+    vector[hash % LOCAL_EMBEDDING_SIZE] += hash & 0x80000000 ? -1 : 1
+  })
+  return vector
+}
+
+export function summarizeDigestLocally(messages: DigestSummaryInput[], withLinks: boolean): string {
+  const byCategory = new Map<string, DigestSummaryInput[]>()
+  for (const m of messages) {
+    const list = byCategory.get(m.category) ?? []
+    list.push(m)
+    byCategory.set(m.category, list)
+  }
+
+  const sections = Array.from(byCategory.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .slice(0, 5)
+    .map(([category, items]) => {
+      const lines = items
+        .slice(0, 3)
+        .map((m) => {
+          const text = withLinks && m.messageLink ? `<a href="${m.messageLink}">${m.summary}</a>` : m.summary
+          return `• ${m.channelTitle}: ${text}`
+        })
+      return `<b>${CATEGORY_TITLES[category] ?? CATEGORY_TITLES.other}</b>\n${lines.join('\n')}`
+    })
+
+  return sections.join('\n\n')
+}
+
+export function summarizeThreadLocally(messages: ThreadSummaryInput[]): string {
+  const participants = new Set(messages.map((m) => m.authorName ?? 'Участник')).size
+  const opening = firstSentences(messages[0]?.text ?? '', 150)
+  return `${participants} участн. обсудили: ${opening}`
+}
+
+// No reasoning offline: the closest matches are quoted with their citations
+export function answerLocally(sources: AnswerSource[]): string {
+  if (sources.length === 0) return 'В ваших каналах ничего не нашлось по этому вопросу.'
+  const lines = sources.slice(0, 3).map((s, i) => `• ${s.channelTitle}: ${firstSentences(s.text, 200)} [${i + 1}]`)
+  return `Ближайшие по смыслу сообщения:\n${lines.join('\n')}`
+}
+
+// Silence of roughly the length it would take to read the text aloud
+export function synthesizeSpeechLocally(text: string, sampleRate: number): Buffer {
+  const words = text.split(/\s+/).filter(Boolean).length
+  const seconds = Math.min(60, Math.max(1, words * 0.4))
+  return Buffer.alloc(Math.round(seconds * sampleRate) * 2)
+}
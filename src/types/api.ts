@@ -6,6 +6,28 @@ export interface ChannelResponse {
   title: string
   addedAt: string
   groupId: number | null
+  kind: 'BROADCAST' | 'MEGAGROUP' | 'FORUM'
+  topicIds: number[]
+  weight: number
+  minImportanceScore: number | null
+  includeAll: boolean
+  snoozedUntil: string | null
+}
+
+export interface ForumTopicResponse {
+  topicId: number
+  title: string
+}
+
+export interface ChannelAdStats {
+  total: number
+  ads: number
+  templates: number
+}
+
+export interface ChannelDetail extends ChannelResponse {
+  topics: ForumTopicResponse[]
+  adStats: ChannelAdStats
 }
 
 export interface GroupResponse {
@@ -15,11 +37,18 @@ export interface GroupResponse {
   maxMessages: number
   minImportanceScore: number
   analyticsOnly: boolean
+  maxPerChannel: number
+  maxPerCategory: number
   channelCount: number
 }
 
+export type DigestPeriod = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
 export interface SettingsResponse {
   digestTime: string
+  digestPeriod: DigestPeriod
+  digestWeekday: number
+  digestMonthDay: number
   timezone: string
   active: boolean
   digestPreferences: string | null
@@ -27,12 +56,22 @@ export interface SettingsResponse {
   analyticsOnly: boolean
 }
 
+export interface LearnedWeightResponse {
+  dimension: 'channel' | 'category' | 'topic'
+  key: string
+  label: string
+  up: number
+  down: number
+  weight: number
+}
+
 export interface DigestListItem {
   id: number
   generatedAt: string
   sentAt: string | null
   periodStart: string
   periodEnd: string
+  period: DigestPeriod
   status: 'PENDING' | 'SENT' | 'FAILED'
   messageCount: number
 }
@@ -47,8 +86,163 @@ export interface DigestMessage {
   channelTitle: string
   channelUsername: string | null
   postedAt: string
+  mediaType: string | null
+  mediaCount: number
+  editedAt: string | null
+  editedAfterDigest: boolean
+  deletedAt: string | null
+  storyThreadId: number | null
+  storyStatus: StoryStatus | null
+}
+
+export type StoryStatus = 'NEW' | 'UPDATE' | 'COVERED'
+
+export interface StoryTimelineItem {
+  messageId: number
+  channelTitle: string
+  summary: string | null
+  text: string
+  importanceScore: number | null
+  postedAt: string
+  link: string
+  delivered: boolean
+}
+
+export interface StoryThreadDetail {
+  id: number
+  title: string
+  firstSeenAt: string
+  lastSeenAt: string
+  messageCount: number
+  timeline: StoryTimelineItem[]
+  hasMore: boolean
 }
 
 export interface DigestDetail extends Omit<DigestListItem, 'messageCount'> {
   messages: DigestMessage[]
 }
+
+export type KeywordRuleKind = 'KEYWORD' | 'REGEX'
+export type KeywordRuleAction = 'INCLUDE' | 'EXCLUDE' | 'BOOST'
+
+export interface KeywordRuleResponse {
+  id: number
+  groupId: number | null
+  kind: KeywordRuleKind
+  pattern: string
+  action: KeywordRuleAction
+  boost: number
+  createdAt: string
+}
+
+export interface RuleTestMatch {
+  messageId: number
+  channelTitle: string
+  text: string
+  postedAt: string
+  link: string
+}
+
+export interface RuleTestResponse {
+  scanned: number
+  matches: RuleTestMatch[]
+}
+
+export type FilterReason = 'TOO_SHORT' | 'URL_ONLY' | 'AD_KEYWORDS' | 'AD_TEMPLATE' | 'EMOJI_SPAM'
+
+export interface ChannelFilterSettings {
+  minLength: number | null
+  adWordThreshold: number | null
+  emojiRatio: number | null
+  exemptions: FilterReason[]
+  defaults: { minLength: number; adWordThreshold: number; emojiRatio: number; disabled: FilterReason[] }
+}
+
+export interface FilteredMessage {
+  messageId: number
+  text: string
+  postedAt: string
+  reason: FilterReason | null
+  link: string
+}
+
+export interface FilteredMessagesResponse {
+  settings: ChannelFilterSettings
+  messages: FilteredMessage[]
+}
+
+export interface AlertSettingsResponse {
+  groupId: number | null
+  enabled: boolean
+  threshold: number
+  categories: string[]
+  quietStart: string | null
+  quietEnd: string | null
+  maxPerDay: number
+}
+
+export type EntityType = 'PERSON' | 'ORGANIZATION' | 'PLACE' | 'TICKER'
+
+export interface EntityResponse {
+  id: number
+  type: EntityType
+  name: string
+  mentionCount: number
+}
+
+export interface WatchedEntityResponse {
+  id: number
+  entityId: number
+  type: EntityType
+  name: string
+  notify: boolean
+  recentMentions: number
+}
+
+export interface EntityMention {
+  messageId: number
+  channelTitle: string
+  summary: string | null
+  text: string
+  importanceScore: number | null
+  postedAt: string
+  link: string
+}
+
+export interface EntityDetail {
+  id: number
+  type: EntityType
+  name: string
+  watch: { id: number; notify: boolean } | null
+  mentions: EntityMention[]
+}
+
+export interface SearchResult {
+  messageId: number
+  channelId: number
+  channelTitle: string
+  category: string | null
+  importanceScore: number | null
+  postedAt: string
+  summary: string | null
+  snippet: string
+  link: string
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  hasMore: boolean
+}
+
+export interface AskSource {
+  messageId: number
+  channelTitle: string
+  postedAt: string
+  summary: string | null
+  link: string
+}
+
+export interface AskResponse {
+  answer: string
+  sources: AskSource[]
+}
@@ -0,0 +1,85 @@
+import { PrismaClient } from '@prisma/client'
+import { createLogger } from '../src/lib/logger'
+import { shingles, jaccard } from '../src/lib/fingerprint'
+
+const logger = createLogger('AdTemplates')
+const prisma = new PrismaClient()
+
+const MIN_SHINGLES = 5
+const TEMPLATE_SIMILARITY = 0.5
+const TEMPLATE_TTL_MS = 90 * 24 * 60 * 60 * 1000 // 90 days
+const LEARNING_WINDOW_MS = 60 * 24 * 60 * 60 * 1000 // 60 days
+const LEARNING_SAMPLE = 200
+const SAMPLE_TEXT_LENGTH = 500
+
+// Returns the id of the channel's learned promo template the text repeats, if any. Matching has no side
+// effects: the same post may be checked again by gap recovery or kept by a subscriber's own settings
+export async function matchAdTemplate(channelId: number, text: string): Promise<number | null> {
+  const grams = shingles(text)
+  if (grams.length < MIN_SHINGLES) return null
+
+  const templates = await prisma.adTemplate.findMany({
+    where: { channelId, lastSeenAt: { gte: new Date(Date.now() - TEMPLATE_TTL_MS) } },
+    select: { id: true, shingles: true },
+  })
+  return templates.find((t) => jaccard(grams, t.shingles) >= TEMPLATE_SIMILARITY)?.id ?? null
+}
+
+// Counted once per post, when it is first filtered out as a repeat of the template
+export async function recordAdTemplateHit(templateId: number): Promise<void> {
+  await prisma.adTemplate.update({
+    where: { id: templateId },
+    data: { hits: { increment: 1 }, lastSeenAt: new Date() },
+  })
+  logger.info('Message filtered by a promo template', { templateId })
+}
+
+// A template is only learned once the same ad shows up twice, so a one-off ad never hides
+// ordinary posts; later copies just refresh the template
+export async function learnAdTemplate(messageId: number): Promise<void> {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    select: { id: true, channelId: true, text: true },
+  })
+  if (!message) return
+
+  const grams = shingles(message.text)
+  if (grams.length < MIN_SHINGLES) return
+
+  const templates = await prisma.adTemplate.findMany({
+    where: { channelId: message.channelId },
+    select: { id: true, shingles: true },
+  })
+  const known = templates.find((t) => jaccard(grams, t.shingles) >= TEMPLATE_SIMILARITY)
+  if (known) {
+    await prisma.adTemplate.update({
+      where: { id: known.id },
+      data: { hits: { increment: 1 }, lastSeenAt: new Date() },
+    })
+    return
+  }
+
+  const earlierAds = await prisma.message.findMany({
+    where: {
+      channelId: message.channelId,
+      id: { not: message.id },
+      postedAt: { gte: new Date(Date.now() - LEARNING_WINDOW_MS) },
+      OR: [{ isAd: true }, { filterReason: 'AD_KEYWORDS' }],
+    },
+    select: { id: true, text: true },
+    orderBy: { postedAt: 'desc' },
+    take: LEARNING_SAMPLE,
+  })
+  const repeat = earlierAds.find((m) => jaccard(grams, shingles(m.text)) >= TEMPLATE_SIMILARITY)
+  if (!repeat) return
+
+  const template = await prisma.adTemplate.create({
+    data: {
+      channelId: message.channelId,
+      shingles: grams,
+      sampleText: message.text.slice(0, SAMPLE_TEXT_LENGTH),
+      lastSeenAt: new Date(),
+    },
+  })
+  logger.info('Learned promo template', { channelId: message.channelId, templateId: template.id, from: [repeat.id, message.id] })
+}
@@ -0,0 +1,37 @@
+import { PrismaClient } from '@prisma/client'
+import { createLogger } from '../src/lib/logger'
+
+const logger = createLogger('BreakingAlerts')
+const prisma = new PrismaClient()
+
+const NEXTJS_URL = process.env.NEXTJS_URL ?? 'http://localhost:3000'
+const INTERNAL_SECRET = process.env.INTERNAL_SECRET ?? ''
+const ALERT_REQUEST_TIMEOUT_MS = 30_000
+
+// Only bothers the web app when some subscriber of the channel has alerts on at this score
+// or watches one of the mentioned entities with notifications
+export async function dispatchAlerts(messageId: number, channelId: number, score: number, entityIds: number[]): Promise<void> {
+  const subscriber = { active: true, userChannels: { some: { channelId } } }
+  const interested = await prisma.alertSettings.findFirst({
+    where: { enabled: true, threshold: { lte: score }, user: subscriber },
+    select: { id: true },
+  }) ?? (entityIds.length === 0 ? null : await prisma.watchedEntity.findFirst({
+    where: { notify: true, entityId: { in: entityIds }, user: subscriber },
+    select: { id: true },
+  }))
+  if (!interested) return
+
+  const response = await fetch(`${NEXTJS_URL}/api/internal/send-alerts`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-internal-secret': INTERNAL_SECRET,
+    },
+    body: JSON.stringify({ messageId }),
+    signal: AbortSignal.timeout(ALERT_REQUEST_TIMEOUT_MS),
+  })
+
+  if (!response.ok) {
+    logger.error('Failed to trigger alerts', { messageId, status: response.status })
+  }
+}
@@ -1,6 +1,7 @@
 import cron from 'node-cron'
-import { PrismaClient } from '@prisma/client'
+import { ChannelGroup, PrismaClient, User } from '@prisma/client'
 import { createLogger } from '../src/lib/logger'
+import { isDigestDay, resolveSchedule } from '../src/lib/digestSchedule'
 
 const logger = createLogger('DigestCron')
 const prisma = new PrismaClient()
@@ -39,6 +40,12 @@ function wasMissedRecently(digestTime: string, timezone: string): boolean {
   return diffMs > 0 && diffMs <= CATCHUP_WINDOW_MS
 }
 
+// Weekly and monthly schedules, the user's own or a group's, only fire on their chosen day
+function hasDigestDue(user: User & { channelGroups: ChannelGroup[] }): boolean {
+  return [resolveSchedule(user), ...user.channelGroups.map((group) => resolveSchedule(user, group))]
+    .some((schedule) => isDigestDay(schedule, user.timezone))
+}
+
 async function hasRecentDigest(userId: number, timezone: string): Promise<boolean> {
   const now = new Date()
   const userDateStr = now.toLocaleDateString('en-CA', { timeZone: timezone }) // YYYY-MM-DD
@@ -74,6 +81,7 @@ async function sendDigests(userIds: number[]): Promise<void> {
 async function triggerDigests(): Promise<void> {
   const users = await prisma.user.findMany({
     where: { active: true },
+    include: { channelGroups: true },
   })
 
   const usersToDigest: number[] = []
@@ -81,6 +89,7 @@ async function triggerDigests(): Promise<void> {
   for (const user of users) {
     try {
       if (!isTimeToSend(user.digestTime, user.timezone)) continue
+      if (!hasDigestDue(user)) continue
       if (await hasRecentDigest(user.id, user.timezone)) continue
       usersToDigest.push(user.id)
     } catch (error) {
@@ -102,6 +111,7 @@ async function triggerDigests(): Promise<void> {
 async function catchUpMissedDigests(): Promise<void> {
   const users = await prisma.user.findMany({
     where: { active: true },
+    include: { channelGroups: true },
   })
 
   const usersToDigest: number[] = []
@@ -109,6 +119,7 @@ async function catchUpMissedDigests(): Promise<void> {
   for (const user of users) {
     try {
       if (!wasMissedRecently(user.digestTime, user.timezone)) continue
+      if (!hasDigestDue(user)) continue
       if (await hasRecentDigest(user.id, user.timezone)) continue
       usersToDigest.push(user.id)
     } catch (error) {
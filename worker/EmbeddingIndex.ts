@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client'
+import { createLogger } from '../src/lib/logger'
+import { LOCAL_EMBEDDING_MODEL, currentEmbeddingModel, embedTexts, embedTextsLocally, embeddingInput } from '../src/services/EmbeddingService'
+
+const logger = createLogger('EmbeddingIndex')
+const prisma = new PrismaClient()
+
+const BACKFILL_BATCH = 50
+
+// The local vector is always stored next to the configured model's one, so questions can still be
+// answered from the same model on both sides while the remote model is unreachable
+async function storeEmbeddings(messages: { id: number; text: string; summary: string | null }[]): Promise<void> {
+  const inputs = messages.map(embeddingInput)
+  const results = [embedTextsLocally(inputs)]
+  const configured = await embedTexts(inputs)
+  if (configured.model !== LOCAL_EMBEDDING_MODEL) results.push(configured)
+
+  for (const { model, vectors } of results) {
+    for (let i = 0; i < messages.length; i++) {
+      await prisma.messageEmbedding.upsert({
+        where: { messageId_model: { messageId: messages[i].id, model } },
+        create: { messageId: messages[i].id, model, vector: vectors[i] },
+        update: { vector: vectors[i], createdAt: new Date() },
+      })
+    }
+  }
+
+  // Vectors of a model that has since been replaced are never queried again
+  await prisma.messageEmbedding.deleteMany({
+    where: {
+      messageId: { in: messages.map((m) => m.id) },
+      model: { notIn: [LOCAL_EMBEDDING_MODEL, await currentEmbeddingModel()] },
+    },
+  })
+}
+
+// Re-embedding on every score keeps the vector in step with edited posts
+export async function embedMessage(messageId: number): Promise<void> {
+  const message = await prisma.message.findUnique({ where: { id: messageId }, select: { id: true, text: true, summary: true } })
+  if (!message || !message.text.trim()) return
+  await storeEmbeddings([message])
+}
+
+// Catches up on messages scored before embeddings existed, embedded by a model that has since been replaced,
+// or embedded only locally while the configured model was unreachable
+export async function backfillEmbeddings(): Promise<void> {
+  const model = await currentEmbeddingModel()
+  const messages = await prisma.message.findMany({
+    where: {
+      scoredAt: { not: null },
+      isFiltered: false,
+      deletedAt: null,
+      text: { not: '' },
+      OR: [{ embeddings: { none: { model } } }, { embeddings: { none: { model: LOCAL_EMBEDDING_MODEL } } }],
+    },
+    select: { id: true, text: true, summary: true },
+    orderBy: { postedAt: 'desc' },
+    take: BACKFILL_BATCH,
+  })
+  if (messages.length === 0) return
+
+  await storeEmbeddings(messages)
+  logger.info('Embeddings backfilled', { messages: messages.length, model })
+}
@@ -0,0 +1,31 @@
+import { PrismaClient } from '@prisma/client'
+import { createLogger } from '../src/lib/logger'
+import { entityKey, ExtractedEntity } from '../src/lib/entities'
+
+const logger = createLogger('EntityIndex')
+const prisma = new PrismaClient()
+
+// Replaces the message's mentions, so a re-scored edit drops entities it no longer mentions
+export async function indexEntities(messageId: number, entities: ExtractedEntity[]): Promise<number[]> {
+  const entityIds: number[] = []
+  for (const { type, name } of entities) {
+    const entity = await prisma.entity.upsert({
+      where: { type_key: { type, key: entityKey(name) } },
+      create: { type, key: entityKey(name), name },
+      update: {},
+      select: { id: true },
+    })
+    entityIds.push(entity.id)
+  }
+
+  await prisma.messageEntity.deleteMany({ where: { messageId, entityId: { notIn: entityIds } } })
+  if (entityIds.length > 0) {
+    await prisma.messageEntity.createMany({
+      data: entityIds.map((entityId) => ({ messageId, entityId })),
+      skipDuplicates: true,
+    })
+  }
+
+  logger.debug('Message entities indexed', { messageId, entities: entityIds.length })
+  return entityIds
+}
@@ -0,0 +1,117 @@
+import { PrismaClient } from '@prisma/client'
+import { createLogger } from '../src/lib/logger'
+import { fetchChannelHistorySince, getLatestMessageId } from './TelegramUserbot'
+import { processPipelineMessage, releaseFailedMessages } from './MessagePipeline'
+
+const logger = createLogger('GapRecovery')
+const prisma = new PrismaClient()
+
+export interface ChannelRecoveryStats {
+  channelId: number
+  channelTitle: string
+  lastRunAt: string
+  lastRecovered: number
+  totalRecovered: number
+  lastError?: string
+}
+
+const recoveryStats = new Map<number, ChannelRecoveryStats>()
+let running = false
+let rerunRequested = false
+
+export function getGapRecoveryStats(): ChannelRecoveryStats[] {
+  return Array.from(recoveryStats.values())
+}
+
+function recordStats(channelId: number, channelTitle: string, recovered: number, error?: string): void {
+  const previous = recoveryStats.get(channelId)
+  recoveryStats.set(channelId, {
+    channelId,
+    channelTitle,
+    lastRunAt: new Date().toISOString(),
+    lastRecovered: recovered,
+    totalRecovered: (previous?.totalRecovered ?? 0) + recovered,
+    ...(error ? { lastError: error } : {}),
+  })
+}
+
+async function recoverChannel(channel: { id: number; title: string; telegramChannelId: bigint; lastSeenMsgId: number | null }): Promise<number> {
+  // Channels without a cursor have never been read: start from the current head instead of replaying history
+  if (channel.lastSeenMsgId === null) {
+    const latestId = await getLatestMessageId(channel.telegramChannelId)
+    await prisma.channel.update({
+      where: { id: channel.id },
+      data: { lastSeenMsgId: latestId, lastSyncedAt: new Date() },
+    })
+    logger.info('Read cursor initialized', { channel: channel.title, lastSeenMsgId: latestId })
+    return 0
+  }
+
+  const missed = await fetchChannelHistorySince(channel.telegramChannelId, channel.lastSeenMsgId)
+  releaseFailedMessages(channel.id, missed)
+
+  let recovered = 0
+  for (const raw of missed) {
+    try {
+      await processPipelineMessage(raw)
+      recovered++
+    } catch (error) {
+      logger.error('Failed to process recovered message', { channel: channel.title, msgId: raw.telegramMsgId, error })
+    }
+  }
+
+  await prisma.channel.update({
+    where: { id: channel.id },
+    data: { lastSyncedAt: new Date() },
+  })
+  return recovered
+}
+
+async function runRecoveryPass(reason: 'startup' | 'reconnect'): Promise<void> {
+  const channels = await prisma.channel.findMany({
+    select: { id: true, title: true, telegramChannelId: true, lastSeenMsgId: true },
+  })
+
+  logger.info('Gap recovery started', { reason, channels: channels.length })
+
+  let totalRecovered = 0
+  for (const channel of channels) {
+    try {
+      const recovered = await recoverChannel(channel)
+      recordStats(channel.id, channel.title, recovered)
+      totalRecovered += recovered
+      if (recovered > 0) {
+        logger.info('Recovered missed messages', { channel: channel.title, recovered, fromMsgId: channel.lastSeenMsgId })
+      }
+    } catch (error) {
+      recordStats(channel.id, channel.title, 0, (error as Error).message)
+      logger.error('Gap recovery failed for channel', { channel: channel.title, error })
+    }
+  }
+
+  logger.info('Gap recovery completed', { reason, totalRecovered })
+}
+
+// A reconnect during a pass may have opened a new gap, so it queues one more pass instead of being dropped
+export async function recoverMissedMessages(reason: 'startup' | 'reconnect'): Promise<void> {
+  if (running) {
+    rerunRequested = true
+    logger.info('Gap recovery already running, another pass queued', { reason })
+    return
+  }
+  running = true
+
+  try {
+    do {
+      rerunRequested = false
+      await runRecoveryPass(reason)
+      reason = 'reconnect'
+    } while (rerunRequested)
+  } finally {
+    running = false
+    // A pass that failed must not swallow the rerun a reconnect asked for
+    if (rerunRequested) {
+      recoverMissedMessages('reconnect').catch((error) => logger.error('Queued gap recovery failed', { error }))
+    }
+  }
+}
@@ -1,17 +1,163 @@
-import { PrismaClient } from '@prisma/client'
-import { filterMessage } from '../src/services/ContentFilter'
-import { scoreMessage } from '../src/services/GeminiScorer'
+import { Channel, FilterReason, Message, Prisma, PrismaClient } from '@prisma/client'
+import { filterMessage, filterConfigFor, filterReasonFor, GLOBAL_FILTER_CONFIG } from '../src/services/ContentFilter'
 import { createLogger } from '../src/lib/logger'
+import { enqueueScoring } from './ScoringQueue'
+import { assignStory } from './StoryClustering'
+import { matchAdTemplate, learnAdTemplate, recordAdTemplateHit } from './AdTemplates'
 
 const logger = createLogger('MessagePipeline')
 const prisma = new PrismaClient()
 
+export interface MediaInfo {
+  msgId: number
+  type: string
+  mimeType?: string
+  size?: number
+  duration?: number
+  width?: number
+  height?: number
+  caption?: string // the album part's own caption, so an edit to one part can rebuild the merged text
+}
+
 export interface RawMessage {
   channelTelegramId: bigint
   telegramMsgId: number
   text: string
   postedAt: Date
   mediaType?: string
+  media?: MediaInfo[]
+  groupedId?: bigint
+  authorId?: bigint
+  authorName?: string
+  replyToMsgId?: number
+  threadId?: number
+  forwardFromChannelId?: bigint
+  forwardFromMsgId?: number
+  editedAt?: Date
+}
+
+export function summarizeMediaType(media: MediaInfo[]): string | undefined {
+  if (media.length === 0) return undefined
+  const types = new Set(media.map((m) => m.type))
+  return types.size === 1 ? media[0].type : 'mixed'
+}
+
+function withCaption(media: MediaInfo[] | undefined, text: string): MediaInfo[] {
+  const caption = text.trim()
+  return (media ?? []).map((m) => (caption ? { ...m, caption } : m))
+}
+
+function mergeCaptions(captions: string[]): string {
+  return Array.from(new Set(captions.map((t) => t.trim()).filter((t) => t.length > 0))).join('\n\n')
+}
+
+// Album parts share a groupedId; they are stored as one message under the lowest part id
+export function mergeAlbumParts(parts: RawMessage[]): RawMessage {
+  const sorted = [...parts].sort((a, b) => a.telegramMsgId - b.telegramMsgId)
+  const media = sorted.flatMap((p) => withCaption(p.media, p.text))
+
+  return {
+    ...sorted[0],
+    text: mergeCaptions(sorted.map((p) => p.text)),
+    media,
+    mediaType: summarizeMediaType(media),
+  }
+}
+
+export function groupAlbums(messages: RawMessage[]): RawMessage[] {
+  const albums = new Map<string, RawMessage[]>()
+  const result: RawMessage[] = []
+
+  for (const msg of messages) {
+    if (msg.groupedId === undefined) {
+      result.push(msg)
+      continue
+    }
+    const key = msg.groupedId.toString()
+    const parts = albums.get(key) ?? []
+    parts.push(msg)
+    albums.set(key, parts)
+  }
+
+  for (const parts of Array.from(albums.values())) {
+    result.push(mergeAlbumParts(parts))
+  }
+
+  return result
+}
+
+function sourceFields(raw: RawMessage) {
+  return {
+    mediaType: raw.mediaType,
+    mediaCount: raw.media?.length ?? 0,
+    mediaItems: raw.media?.length ? (raw.media as unknown as Prisma.InputJsonValue) : undefined,
+    groupedId: raw.groupedId,
+    authorId: raw.authorId,
+    authorName: raw.authorName,
+    replyToMsgId: raw.replyToMsgId,
+    threadId: raw.threadId,
+    forwardFromChannelId: raw.forwardFromChannelId,
+    forwardFromMsgId: raw.forwardFromMsgId,
+  }
+}
+
+const FORUM_GENERAL_TOPIC_ID = 1
+
+// Broadcast posts have no threads; forum messages belong to a topic; supergroup replies inherit
+// the thread of the message they answer, and a message that starts a discussion is its own root
+async function resolveThreadId(channel: Channel, raw: RawMessage): Promise<number | undefined> {
+  if (channel.kind === 'BROADCAST') return undefined
+  if (channel.kind === 'FORUM') return raw.threadId ?? FORUM_GENERAL_TOPIC_ID
+  if (raw.threadId !== undefined) return raw.threadId
+  if (raw.replyToMsgId === undefined) return raw.telegramMsgId
+
+  const parent = await prisma.message.findUnique({
+    where: { channelId_telegramMsgId: { channelId: channel.id, telegramMsgId: raw.replyToMsgId } },
+    select: { threadId: true },
+  })
+  return parent?.threadId ?? raw.replyToMsgId
+}
+
+async function attachToStoredAlbum(albumMessageId: number, raw: RawMessage): Promise<void> {
+  const stored = await prisma.message.findUniqueOrThrow({ where: { id: albumMessageId } })
+  const storedMedia = (stored.mediaItems ?? []) as unknown as MediaInfo[]
+  const knownIds = new Set(storedMedia.map((m) => m.msgId))
+  const media = [...storedMedia, ...withCaption(raw.media, raw.text).filter((m) => !knownIds.has(m.msgId))]
+
+  await prisma.message.update({
+    where: { id: albumMessageId },
+    data: {
+      mediaType: summarizeMediaType(media),
+      mediaCount: media.length,
+      mediaItems: media as unknown as Prisma.InputJsonValue,
+    },
+  })
+  logger.info('Album part attached to stored album', { msgId: raw.telegramMsgId, albumMsgId: stored.telegramMsgId })
+}
+
+// An edit to one album part only replaces that part's caption in the merged text; null means the edit
+// leaves the text alone (e.g. a media swap on a part without a caption)
+function editAlbumText(stored: Message, raw: RawMessage): { text: string; media: MediaInfo[] } | null {
+  const media = (stored.mediaItems ?? []) as unknown as MediaInfo[]
+  const caption = raw.text.trim()
+  const tracked = media.some((m) => m.msgId === raw.telegramMsgId) && media.some((m) => m.caption !== undefined)
+
+  // Albums stored before captions were kept per part: an empty caption can't be told apart from a media swap
+  if (!tracked) return caption ? { text: raw.text, media } : null
+  if (!caption && !media.some((m) => m.msgId === raw.telegramMsgId && m.caption)) return null
+
+  const edited = media.map((m): MediaInfo => (m.msgId === raw.telegramMsgId ? { ...m, caption: caption || undefined } : m))
+  const captions = [...edited].sort((a, b) => a.msgId - b.msgId).map((m) => m.caption ?? '')
+  return { text: mergeCaptions(captions), media: edited }
+}
+
+function normalizeForComparison(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+// Edits that only touch whitespace, punctuation, emoji or letter case don't warrant a re-score
+export function isMeaningfulEdit(previousText: string, nextText: string): boolean {
+  return normalizeForComparison(previousText) !== normalizeForComparison(nextText)
 }
 
 export async function processPipelineMessage(raw: RawMessage): Promise<void> {
@@ -29,38 +175,129 @@ export async function processPipelineMessage(raw: RawMessage): Promise<void> {
 
   logger.debug('Channel found', { channelId: channel.id, channelTitle: channel.title })
 
-  const filterResult = filterMessage(raw.text)
+  try {
+    await storeMessage(channel, raw)
+  } catch (error) {
+    await holdReadCursor(channel.id, raw.telegramMsgId)
+    throw error
+  }
+  failedMsgIds.get(channel.id)?.delete(raw.telegramMsgId)
+  await advanceReadCursor(channel.id, raw)
+}
 
-  if (filterResult.filtered) {
-    await prisma.message.upsert({
-      where: {
-        channelId_telegramMsgId: {
-          channelId: channel.id,
-          telegramMsgId: raw.telegramMsgId,
-        },
-      },
-      create: {
-        channelId: channel.id,
-        telegramMsgId: raw.telegramMsgId,
-        text: raw.text,
-        mediaType: raw.mediaType,
-        postedAt: raw.postedAt,
-        isFiltered: true,
-      },
-      update: {},
-    })
-    logger.info('Message filtered (skipped)', { reason: filterResult.reason, msgId: raw.telegramMsgId, channel: channel.title })
-    return
+// Message ids per channel that failed to store. The read cursor stays below the lowest of them, so the
+// next gap recovery fetches them again instead of skipping them because a later message succeeded
+const failedMsgIds = new Map<number, Set<number>>()
+
+async function holdReadCursor(channelId: number, msgId: number): Promise<void> {
+  const failed = failedMsgIds.get(channelId) ?? new Set<number>()
+  failed.add(msgId)
+  failedMsgIds.set(channelId, failed)
+
+  await prisma.channel.updateMany({
+    where: { id: channelId, lastSeenMsgId: { gte: msgId } },
+    data: { lastSeenMsgId: msgId - 1 },
+  })
+}
+
+// A failed message that is no longer in the channel's history (deleted since) must not hold the cursor forever
+export function releaseFailedMessages(channelId: number, history: RawMessage[]): void {
+  const failed = failedMsgIds.get(channelId)
+  if (!failed) return
+  const present = new Set(history.map((raw) => raw.telegramMsgId))
+  failed.forEach((msgId) => {
+    if (!present.has(msgId)) failed.delete(msgId)
+  })
+}
+
+// Read cursors only move forward, and only across messages that were stored; album parts count up to
+// their highest part id
+async function advanceReadCursor(channelId: number, raw: RawMessage): Promise<void> {
+  const failed = Array.from(failedMsgIds.get(channelId) ?? [])
+  const seenMsgId = Math.min(
+    Math.max(raw.telegramMsgId, ...(raw.media ?? []).map((m) => m.msgId)),
+    ...failed.map((id) => id - 1),
+  )
+
+  await prisma.channel.updateMany({
+    where: {
+      id: channelId,
+      OR: [{ lastSeenMsgId: null }, { lastSeenMsgId: { lt: seenMsgId } }],
+    },
+    data: { lastSeenMsgId: seenMsgId },
+  })
+}
+
+// A clustering failure must not lose the message itself
+async function clusterIntoStory(messageId: number): Promise<void> {
+  try {
+    await assignStory(messageId)
+  } catch (error) {
+    logger.warn('Story clustering failed', { messageId, error })
   }
+}
 
-  logger.info('Message passed filter, sending to Gemini', { msgId: raw.telegramMsgId, channel: channel.title })
+interface FilterOutcome {
+  reason: FilterReason | null
+  isFiltered: boolean
+  templateId: number | null
+}
+
+// Keyword heuristics first, then the promo templates learned for this channel. A post the default rules
+// drop stays live when a subscriber's own filter settings, or their rescue of an earlier version, keep it;
+// the digest then applies each subscriber's settings on its own
+async function applyFilters(channel: Channel, text: string, messageId?: number): Promise<FilterOutcome> {
+  let result = filterMessage(text)
+  let templateId: number | null = null
+  if (!result.filtered && !GLOBAL_FILTER_CONFIG.disabled.includes('AD_TEMPLATE')) {
+    templateId = await matchAdTemplate(channel.id, text)
+    if (templateId !== null) result = { filtered: true, reason: 'AD_TEMPLATE' }
+  }
+  const reason = result.reason ?? null
+  if (!result.filtered) return { reason, isFiltered: false, templateId }
+
+  const subscriptions = await prisma.userChannel.findMany({ where: { channelId: channel.id } })
+  const kept = subscriptions.some((uc) => filterReasonFor({ text, filterReason: reason }, filterConfigFor(uc)) === null)
+  const rescued = messageId !== undefined && (await prisma.filterRescue.count({ where: { messageId } })) > 0
+  return { reason, isFiltered: !kept && !rescued, templateId }
+}
 
-  let scoreResult
+async function countTemplateHit(templateId: number | null): Promise<void> {
+  if (templateId === null) return
+  await recordAdTemplateHit(templateId).catch((error) => logger.warn('Promo template hit not recorded', { templateId, error }))
+}
+
+async function learnFromAd(messageId: number): Promise<void> {
   try {
-    scoreResult = await scoreMessage(raw.text)
+    await learnAdTemplate(messageId)
   } catch (error) {
-    logger.error('Gemini scoring failed, saving unscored', { error, msgId: raw.telegramMsgId, channel: channel.title })
-    await prisma.message.upsert({
+    logger.warn('Promo template learning failed', { messageId, error })
+  }
+}
+
+async function storeMessage(channel: Channel, incoming: RawMessage): Promise<void> {
+  const raw = { ...incoming, threadId: await resolveThreadId(channel, incoming) }
+
+  if (raw.groupedId !== undefined) {
+    const album = await prisma.message.findFirst({
+      where: { channelId: channel.id, groupedId: raw.groupedId, telegramMsgId: { not: raw.telegramMsgId } },
+      select: { id: true },
+    })
+    if (album) {
+      await attachToStoredAlbum(album.id, raw)
+      return
+    }
+  }
+
+  const filter = await applyFilters(channel, raw.text)
+
+  if (filter.isFiltered) {
+    // Gap recovery and backfills re-process stored posts; only a post's first filtering counts for the templates
+    const stored = await prisma.message.findUnique({
+      where: { channelId_telegramMsgId: { channelId: channel.id, telegramMsgId: raw.telegramMsgId } },
+      select: { id: true },
+    })
+    const filtered = await prisma.message.upsert({
       where: {
         channelId_telegramMsgId: {
           channelId: channel.id,
@@ -71,16 +308,22 @@ export async function processPipelineMessage(raw: RawMessage): Promise<void> {
         channelId: channel.id,
         telegramMsgId: raw.telegramMsgId,
         text: raw.text,
-        mediaType: raw.mediaType,
+        ...sourceFields(raw),
         postedAt: raw.postedAt,
-        isFiltered: false,
+        isFiltered: true,
+        filterReason: filter.reason,
       },
       update: {},
     })
+    if (!stored) {
+      if (filter.reason === 'AD_KEYWORDS') await learnFromAd(filtered.id)
+      await countTemplateHit(filter.templateId)
+    }
+    logger.info('Message filtered (skipped)', { reason: filter.reason, msgId: raw.telegramMsgId, channel: channel.title })
     return
   }
 
-  await prisma.message.upsert({
+  const message = await prisma.message.upsert({
     where: {
       channelId_telegramMsgId: {
         channelId: channel.id,
@@ -91,29 +334,139 @@ export async function processPipelineMessage(raw: RawMessage): Promise<void> {
       channelId: channel.id,
       telegramMsgId: raw.telegramMsgId,
       text: raw.text,
-      mediaType: raw.mediaType,
+      ...sourceFields(raw),
       postedAt: raw.postedAt,
       isFiltered: false,
-      isAd: scoreResult.isAd,
-      importanceScore: scoreResult.importance,
-      category: scoreResult.category,
-      summary: scoreResult.summary,
-      scoredAt: new Date(),
+      filterReason: filter.reason,
+    },
+    update: {},
+  })
+
+  if (message.importanceScore === null) {
+    await enqueueScoring(message.id)
+  }
+  await clusterIntoStory(message.id)
+
+  logger.info('Message stored, queued for scoring', { msgId: raw.telegramMsgId, channel: channel.title })
+}
+
+export async function processEditedMessage(raw: RawMessage): Promise<void> {
+  const channel = await prisma.channel.findUnique({
+    where: { telegramChannelId: raw.channelTelegramId },
+  })
+
+  if (!channel) {
+    logger.warn('Channel not found in DB — edit dropped', { channelTelegramId: raw.channelTelegramId.toString() })
+    return
+  }
+
+  let existing = await prisma.message.findUnique({
+    where: {
+      channelId_telegramMsgId: {
+        channelId: channel.id,
+        telegramMsgId: raw.telegramMsgId,
+      },
     },
-    update: {
-      isAd: scoreResult.isAd,
-      importanceScore: scoreResult.importance,
-      category: scoreResult.category,
-      summary: scoreResult.summary,
-      scoredAt: new Date(),
+  })
+
+  // The caption of an album may live on any of its parts
+  if (!existing && raw.groupedId !== undefined) {
+    existing = await prisma.message.findFirst({
+      where: { channelId: channel.id, groupedId: raw.groupedId },
+    })
+  }
+
+  if (!existing) {
+    logger.info('Edited message not stored yet, processing as new', { msgId: raw.telegramMsgId, channel: channel.title })
+    await processPipelineMessage(raw)
+    return
+  }
+
+  let text = raw.text
+  let albumMedia: Prisma.InputJsonValue | undefined
+  if (existing.groupedId !== null) {
+    const album = editAlbumText(existing, raw)
+    if (!album) return
+    text = album.text
+    albumMedia = album.media as unknown as Prisma.InputJsonValue
+  }
+
+  // Telegram also sends edit updates for reactions and view counters
+  if (existing.text === text) return
+
+  const editedAt = raw.editedAt ?? new Date()
+  const meaningful = isMeaningfulEdit(existing.text, text)
+
+  await prisma.messageEdit.create({
+    data: {
+      messageId: existing.id,
+      previousText: existing.text,
+      previousSummary: existing.summary,
+      previousScore: existing.importanceScore,
+      rescored: meaningful,
+      editedAt,
     },
   })
 
-  logger.info('Message processed and saved', {
+  if (!meaningful) {
+    await prisma.message.update({
+      where: { id: existing.id },
+      data: { text, mediaItems: albumMedia },
+    })
+    logger.info('Cosmetic edit saved without re-scoring', { msgId: raw.telegramMsgId, channel: channel.title })
+    return
+  }
+
+  // A post a user rescued from the filter stays rescued through later edits
+  const filter = await applyFilters(channel, text, existing.id)
+
+  if (filter.isFiltered) {
+    if (!existing.isFiltered || existing.filterReason !== 'AD_TEMPLATE') await countTemplateHit(filter.templateId)
+    await prisma.message.update({
+      where: { id: existing.id },
+      data: { text, mediaItems: albumMedia, editedAt, isFiltered: true, filterReason: filter.reason },
+    })
+    logger.info('Edited message filtered (skipped)', { reason: filter.reason, msgId: raw.telegramMsgId, channel: channel.title })
+    return
+  }
+
+  await prisma.message.update({
+    where: { id: existing.id },
+    data: { text, mediaItems: albumMedia, editedAt, isFiltered: false, filterReason: filter.reason },
+  })
+  await enqueueScoring(existing.id)
+  await clusterIntoStory(existing.id)
+
+  logger.info('Edited message queued for re-scoring', {
     channel: channel.title,
     msgId: raw.telegramMsgId,
-    score: scoreResult.importance,
-    category: scoreResult.category,
-    isAd: scoreResult.isAd,
+    previousScore: existing.importanceScore,
+  })
+}
+
+// Deleted posts are kept (they may already be part of sent digests) and only marked
+export async function markMessagesDeleted(channelTelegramId: bigint, telegramMsgIds: number[]): Promise<void> {
+  const channel = await prisma.channel.findUnique({
+    where: { telegramChannelId: channelTelegramId },
+  })
+
+  if (!channel) {
+    logger.warn('Channel not found in DB — deletion ignored', { channelTelegramId: channelTelegramId.toString() })
+    return
+  }
+
+  const result = await prisma.message.updateMany({
+    where: {
+      channelId: channel.id,
+      telegramMsgId: { in: telegramMsgIds },
+      deletedAt: null,
+    },
+    data: { deletedAt: new Date() },
+  })
+
+  logger.info('Messages marked as deleted by source', {
+    channel: channel.title,
+    msgIds: telegramMsgIds,
+    marked: result.count,
   })
 }
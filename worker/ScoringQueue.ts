@@ -0,0 +1,319 @@
+import { Message, PrismaClient, ScoreStatus, ScoringJobStatus } from '@prisma/client'
+import { scoreMessage, scoreMessagesBatch, ScoreResult, ScoredMessage } from '../src/services/GeminiScorer'
+import { createLogger } from '../src/lib/logger'
+import { learnAdTemplate } from './AdTemplates'
+import { dispatchAlerts } from './BreakingAlerts'
+import { embedMessage, backfillEmbeddings } from './EmbeddingIndex'
+import { indexEntities } from './EntityIndex'
+import { indexForSearch, backfillSearchIndex } from './SearchIndex'
+
+const logger = createLogger('ScoringQueue')
+const prisma = new PrismaClient()
+
+const CONCURRENCY = parseInt(process.env.SCORING_CONCURRENCY ?? '3', 10)
+const MAX_ATTEMPTS = parseInt(process.env.SCORING_MAX_ATTEMPTS ?? '6', 10)
+const BATCH_SIZE = parseInt(process.env.SCORING_BATCH_SIZE ?? '10', 10)
+const FLUSH_INTERVAL_MS = parseInt(process.env.SCORING_FLUSH_INTERVAL_MS ?? '2000', 10)
+const POLL_INTERVAL_MS = 5_000
+const BASE_RETRY_DELAY_MS = 30_000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000 // 1 hour
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000 // 5 minutes
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000 // 10 minutes
+const SWEEP_BATCH = 500
+
+interface ClaimedJob {
+  id: number
+  messageId: number
+  attempts: number
+}
+
+let active = 0
+let pumping = false
+let pollTimer: NodeJS.Timeout | null = null
+let pollDueAt = 0
+let enqueuedSinceFlush = 0
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+export async function enqueueScoring(messageId: number): Promise<void> {
+  await prisma.scoringJob.upsert({
+    where: { messageId },
+    create: { messageId },
+    update: { status: 'PENDING', attempts: 0, runAt: new Date(), lockedAt: null, lastError: null },
+  })
+
+  // Let new messages accumulate into a full batch, but don't hold them longer than the flush interval
+  enqueuedSinceFlush++
+  schedulePump(enqueuedSinceFlush >= BATCH_SIZE ? 0 : FLUSH_INTERVAL_MS)
+}
+
+async function claimJobs(limit: number): Promise<ClaimedJob[]> {
+  return prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE "ScoringJob"
+    SET status = 'RUNNING', "lockedAt" = NOW(), "updatedAt" = NOW()
+    WHERE id IN (
+      SELECT id FROM "ScoringJob"
+      WHERE status = 'PENDING' AND "runAt" <= NOW()
+      ORDER BY "runAt"
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, "messageId", attempts
+  `
+}
+
+async function completeJob(job: ClaimedJob, message: Message, scoreResult: ScoredMessage): Promise<void> {
+  await prisma.message.update({
+    where: { id: message.id },
+    data: {
+      isAd: scoreResult.isAd,
+      importanceScore: scoreResult.importance,
+      category: scoreResult.category,
+      summary: scoreResult.summary,
+      scoredAt: new Date(),
+      scoreStatus: scoreResult.status,
+      scoreError: scoreResult.error ?? null,
+    },
+  })
+
+  // A job re-enqueued while running (e.g. the post was edited) is left PENDING to score the new text
+  await prisma.scoringJob.updateMany({
+    where: { id: job.id, status: 'RUNNING' },
+    data: { status: 'DONE', attempts: job.attempts + 1, lockedAt: null, lastError: null },
+  })
+
+  logger.info('Message scored', {
+    messageId: message.id,
+    score: scoreResult.importance,
+    category: scoreResult.category,
+    isAd: scoreResult.isAd,
+    status: scoreResult.status,
+  })
+
+  // Heuristic fallback scores are too noisy to learn promo templates from
+  if (scoreResult.isAd && scoreResult.status !== 'FALLBACK') {
+    await learnAdTemplate(message.id).catch((error) => logger.warn('Promo template learning failed', { messageId: message.id, error }))
+  }
+
+  await indexForSearch(message.id).catch((error) => logger.warn('Search indexing failed', { messageId: message.id, error }))
+  await embedMessage(message.id).catch((error) => logger.warn('Embedding failed', { messageId: message.id, error }))
+
+  const entityIds = await indexEntities(message.id, scoreResult.entities)
+    .catch((error) => {
+      logger.warn('Entity indexing failed', { messageId: message.id, error })
+      return [] as number[]
+    })
+
+  // Breaking news and watched mentions go out as soon as they are scored; fallback scores are not
+  // trusted to interrupt anyone. Delivery runs in the background so a slow web app doesn't hold up scoring
+  if (!scoreResult.isAd && scoreResult.status !== 'FALLBACK') {
+    dispatchAlerts(message.id, message.channelId, scoreResult.importance, entityIds)
+      .catch((error) => logger.warn('Alert dispatch failed', { messageId: message.id, error }))
+  }
+}
+
+async function failJob(job: ClaimedJob, error: unknown): Promise<void> {
+  const attempts = job.attempts + 1
+  const dead = attempts >= MAX_ATTEMPTS
+  const lastError = ((error as Error).message ?? String(error)).slice(0, 1000)
+
+  await prisma.scoringJob.updateMany({
+    where: { id: job.id, status: 'RUNNING' },
+    data: {
+      status: dead ? 'DEAD' : 'PENDING',
+      attempts,
+      lastError,
+      lockedAt: null,
+      ...(dead ? {} : { runAt: new Date(Date.now() + retryDelay(attempts)) }),
+    },
+  })
+
+  if (dead) {
+    logger.error('Scoring job moved to dead letter', { messageId: job.messageId, attempts, lastError })
+  } else {
+    logger.warn('Scoring failed, will retry', { messageId: job.messageId, attempts, retryInMs: retryDelay(attempts), lastError })
+  }
+}
+
+async function scoreSingle(job: ClaimedJob, message: Message): Promise<void> {
+  try {
+    await completeJob(job, message, await scoreMessage(message.text))
+  } catch (error) {
+    await failJob(job, error)
+  }
+}
+
+async function runBatch(jobs: ClaimedJob[]): Promise<void> {
+  const messages = await prisma.message.findMany({ where: { id: { in: jobs.map((j) => j.messageId) } } })
+  const messageById = new Map(messages.map((m) => [m.id, m]))
+
+  const scorable: { job: ClaimedJob; message: Message }[] = []
+  const skippedJobIds: number[] = []
+  for (const job of jobs) {
+    const message = messageById.get(job.messageId)
+    if (!message || message.isFiltered || message.deletedAt) skippedJobIds.push(job.id)
+    else scorable.push({ job, message })
+  }
+
+  if (skippedJobIds.length > 0) {
+    await prisma.scoringJob.updateMany({
+      where: { id: { in: skippedJobIds }, status: 'RUNNING' },
+      data: { status: 'DONE', lockedAt: null },
+    })
+  }
+
+  if (scorable.length === 0) return
+  if (scorable.length === 1) {
+    await scoreSingle(scorable[0].job, scorable[0].message)
+    return
+  }
+
+  let results: Map<number, ScoreResult>
+  try {
+    results = await scoreMessagesBatch(scorable.map(({ message }) => ({ id: message.id, text: message.text })))
+  } catch (error) {
+    await Promise.all(scorable.map(({ job }) => failJob(job, error)))
+    return
+  }
+
+  const invalid = scorable.filter(({ message }) => !results.has(message.id))
+  if (invalid.length > 0) {
+    logger.warn('Batch returned invalid items, scoring them individually', { batch: scorable.length, invalid: invalid.length })
+  }
+
+  for (const { job, message } of scorable) {
+    const scoreResult = results.get(message.id)
+    if (scoreResult) await completeJob(job, message, { ...scoreResult, status: 'OK' })
+  }
+  for (const { job, message } of invalid) {
+    await scoreSingle(job, message)
+  }
+}
+
+async function pump(): Promise<void> {
+  if (pumping) return
+  pumping = true
+
+  try {
+    enqueuedSinceFlush = 0
+    while (active < CONCURRENCY) {
+      const jobs = await claimJobs(BATCH_SIZE)
+      if (jobs.length === 0) break
+
+      active++
+      runBatch(jobs)
+        .catch((error) => logger.error('Scoring batch crashed', { jobIds: jobs.map((j) => j.id), error }))
+        .finally(() => {
+          active--
+          wakeScoringQueue()
+        })
+
+      if (jobs.length < BATCH_SIZE) break
+    }
+  } finally {
+    pumping = false
+  }
+}
+
+function schedulePump(delayMs: number): void {
+  const dueAt = Date.now() + delayMs
+  if (pollTimer) {
+    if (pollDueAt <= dueAt) return
+    clearTimeout(pollTimer)
+  }
+  pollDueAt = dueAt
+  pollTimer = setTimeout(() => {
+    pollTimer = null
+    pump()
+      .catch((error) => logger.error('Scoring queue poll failed', { error }))
+      .finally(() => {
+        if (!pollTimer) schedulePump(POLL_INTERVAL_MS)
+      })
+  }, delayMs)
+}
+
+export function wakeScoringQueue(): void {
+  schedulePump(0)
+}
+
+// Picks up messages left unscored by earlier failures and jobs orphaned by a crashed worker
+async function sweep(): Promise<void> {
+  const released = await prisma.scoringJob.updateMany({
+    where: { status: 'RUNNING', lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+    data: { status: 'PENDING', lockedAt: null },
+  })
+
+  const orphans = await prisma.message.findMany({
+    where: { isFiltered: false, importanceScore: null, deletedAt: null, scoringJob: { is: null } },
+    select: { id: true },
+    take: SWEEP_BATCH,
+  })
+
+  if (orphans.length > 0) {
+    await prisma.scoringJob.createMany({
+      data: orphans.map((m) => ({ messageId: m.id })),
+      skipDuplicates: true,
+    })
+  }
+
+  if (released.count > 0 || orphans.length > 0) {
+    logger.info('Scoring sweep enqueued work', { releasedStale: released.count, unscored: orphans.length })
+    wakeScoringQueue()
+  }
+}
+
+export async function waitForScoring(messageIds: number[], timeoutMs: number): Promise<number> {
+  const deadline = Date.now() + timeoutMs
+
+  while (true) {
+    const pending = await prisma.scoringJob.count({
+      where: { messageId: { in: messageIds }, status: { in: ['PENDING', 'RUNNING'] } },
+    })
+    if (pending === 0 || Date.now() >= deadline) return pending
+    await new Promise((resolve) => setTimeout(resolve, 1000))
+  }
+}
+
+export async function getScoringQueueStats(): Promise<Record<ScoringJobStatus, number>> {
+  const groups = await prisma.scoringJob.groupBy({ by: ['status'], _count: { _all: true } })
+  const stats: Record<ScoringJobStatus, number> = { PENDING: 0, RUNNING: 0, DONE: 0, DEAD: 0 }
+  for (const g of groups) stats[g.status] = g._count._all
+  return stats
+}
+
+export async function getScoreQualityStats(): Promise<{ last24h: Record<ScoreStatus, number>; fallbackTotal: number }> {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000)
+  const groups = await prisma.message.groupBy({
+    by: ['scoreStatus'],
+    where: { scoredAt: { gte: since }, scoreStatus: { not: null } },
+    _count: { _all: true },
+  })
+  const last24h: Record<ScoreStatus, number> = { OK: 0, REPAIRED: 0, FALLBACK: 0 }
+  for (const g of groups) {
+    if (g.scoreStatus) last24h[g.scoreStatus] = g._count._all
+  }
+
+  const fallbackTotal = await prisma.message.count({ where: { scoreStatus: 'FALLBACK' } })
+  return { last24h, fallbackTotal }
+}
+
+export function startScoringQueue(): void {
+  const runSweep = () => {
+    sweep().catch((error) => logger.error('Scoring sweep failed', { error }))
+    backfillSearchIndex().catch((error) => logger.error('Search index backfill failed', { error }))
+    backfillEmbeddings().catch((error) => logger.error('Embedding backfill failed', { error }))
+  }
+
+  runSweep()
+  setInterval(runSweep, SWEEP_INTERVAL_MS)
+  schedulePump(0)
+
+  logger.info('Scoring queue started', {
+    concurrency: CONCURRENCY,
+    batchSize: BATCH_SIZE,
+    flushIntervalMs: FLUSH_INTERVAL_MS,
+    maxAttempts: MAX_ATTEMPTS,
+  })
+}
@@ -0,0 +1,31 @@
+import { PrismaClient } from '@prisma/client'
+import { createLogger } from '../src/lib/logger'
+
+const logger = createLogger('SearchIndex')
+const prisma = new PrismaClient()
+
+const BACKFILL_BATCH = 500
+
+// The "russian" configuration stems Cyrillic words as Russian and Latin ones as English;
+// summary matches rank above matches in the post text
+export async function indexForSearch(messageId: number): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE "Message"
+    SET "searchVector" = setweight(to_tsvector('russian', coalesce(summary, '')), 'A') || setweight(to_tsvector('russian', text), 'B')
+    WHERE id = ${messageId}
+  `
+}
+
+// Catches up on messages scored before the search index existed or while indexing failed
+export async function backfillSearchIndex(): Promise<void> {
+  const updated = await prisma.$executeRaw`
+    UPDATE "Message"
+    SET "searchVector" = setweight(to_tsvector('russian', coalesce(summary, '')), 'A') || setweight(to_tsvector('russian', text), 'B')
+    WHERE id IN (
+      SELECT id FROM "Message"
+      WHERE "searchVector" IS NULL AND "scoredAt" IS NOT NULL
+      LIMIT ${BACKFILL_BATCH}
+    )
+  `
+  if (updated > 0) logger.info('Search index backfilled', { messages: updated })
+}
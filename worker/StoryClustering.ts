@@ -0,0 +1,216 @@
+import { PrismaClient, Prisma } from '@prisma/client'
+import { createLogger } from '../src/lib/logger'
+import { simhash, extractUrls, storyKeywords } from '../src/lib/fingerprint'
+
+const logger = createLogger('StoryClustering')
+const prisma = new PrismaClient()
+
+const STORY_WINDOW_MS = 48 * 60 * 60 * 1000 // 48 hours
+const MAX_SIMHASH_DISTANCE = 12
+const THREAD_WINDOW_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+const THREAD_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000 // 14 days
+const MIN_SHARED_KEYWORDS = 3
+const MIN_KEYWORD_JACCARD = 0.3
+const THREAD_TITLE_LENGTH = 120
+
+interface Fingerprint {
+  id: number
+  telegramMsgId: number
+  storyId: number | null
+  simhash: bigint | null
+  urls: string[]
+  forwardFromChannelId: bigint | null
+  forwardFromMsgId: number | null
+  channel: { telegramChannelId: bigint }
+}
+
+type ClusteredMessage = Fingerprint & { channelId: number; text: string; postedAt: Date; storyThreadId: number | null }
+
+interface DuplicateMatch {
+  id: number
+  storyId: number | null
+}
+
+// Near duplicates share a forward source, a URL or a close simhash; the comparison runs in SQL
+// so only matching posts leave the database
+async function findNearDuplicates(message: ClusteredMessage): Promise<DuplicateMatch[]> {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`(m."forwardFromChannelId" = ${message.channel.telegramChannelId} AND m."forwardFromMsgId" = ${message.telegramMsgId})`,
+  ]
+  if (message.forwardFromChannelId !== null && message.forwardFromMsgId !== null) {
+    conditions.push(Prisma.sql`(c."telegramChannelId" = ${message.forwardFromChannelId} AND m."telegramMsgId" = ${message.forwardFromMsgId})`)
+    conditions.push(Prisma.sql`(m."forwardFromChannelId" = ${message.forwardFromChannelId} AND m."forwardFromMsgId" = ${message.forwardFromMsgId})`)
+  }
+  if (message.urls.length > 0) {
+    conditions.push(Prisma.sql`m.urls && ${message.urls}::text[]`)
+  }
+  if (message.simhash !== null) {
+    conditions.push(Prisma.sql`bit_count((m.simhash # ${message.simhash})::bit(64)) <= ${MAX_SIMHASH_DISTANCE}`)
+  }
+
+  return prisma.$queryRaw<DuplicateMatch[]>`
+    SELECT m.id, m."storyId"
+    FROM "Message" m
+    JOIN "Channel" c ON c.id = m."channelId"
+    WHERE m.id <> ${message.id}
+      AND m."channelId" <> ${message.channelId}
+      AND c.kind = 'BROADCAST'
+      AND m."isFiltered" = false
+      AND m."deletedAt" IS NULL
+      AND m."postedAt" BETWEEN ${new Date(message.postedAt.getTime() - STORY_WINDOW_MS)} AND ${new Date(message.postedAt.getTime() + STORY_WINDOW_MS)}
+      AND (${Prisma.join(conditions, ' OR ')})
+    ORDER BY m."postedAt"
+  `
+}
+
+// A post can bridge stories that were clustered apart; the oldest story absorbs the others
+async function mergeStories(storyId: number, mergedIds: number[]): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    for (const mergedId of mergedIds) {
+      // Alerts are unique per user and story: users already alerted on the target keep that alert,
+      // and their alert on the merged story keeps only its message
+      const alerted = await tx.alert.findMany({ where: { storyId }, select: { userId: true } })
+      const userIds = alerted.map((a) => a.userId)
+      await tx.alert.updateMany({ where: { storyId: mergedId, userId: { in: userIds } }, data: { storyId: null } })
+      await tx.alert.updateMany({ where: { storyId: mergedId }, data: { storyId } })
+    }
+
+    await tx.message.updateMany({ where: { storyId: { in: mergedIds } }, data: { storyId } })
+    await tx.story.deleteMany({ where: { id: { in: mergedIds } } })
+  })
+  logger.info('Stories merged', { storyId, mergedIds })
+}
+
+async function joinDuplicateStory(message: ClusteredMessage): Promise<number | null> {
+  const matches = await findNearDuplicates(message)
+  if (matches.length === 0) return message.storyId
+
+  // Join an existing story when possible so reposts of reposts stay together
+  const storyIds = Array.from(new Set(
+    [message.storyId, ...matches.map((m) => m.storyId)].filter((id): id is number => id !== null)
+  )).sort((a, b) => a - b)
+
+  let storyId = storyIds[0] ?? null
+  if (storyId === null) {
+    const story = await prisma.story.create({
+      data: { firstSeenAt: message.postedAt, lastSeenAt: message.postedAt },
+    })
+    storyId = story.id
+  } else if (storyIds.length > 1) {
+    await mergeStories(storyId, storyIds.slice(1))
+  }
+
+  const unassigned = [message.id, ...matches.filter((m) => m.storyId === null).map((m) => m.id)]
+  await prisma.message.updateMany({
+    where: { id: { in: unassigned }, storyId: null },
+    data: { storyId },
+  })
+
+  const span = await prisma.message.aggregate({
+    where: { storyId },
+    _min: { postedAt: true },
+    _max: { postedAt: true },
+  })
+  await prisma.story.update({
+    where: { id: storyId },
+    data: {
+      firstSeenAt: span._min.postedAt ?? message.postedAt,
+      lastSeenAt: span._max.postedAt ?? message.postedAt,
+    },
+  })
+
+  logger.info('Message clustered into story', { messageId: message.id, storyId, matches: matches.length })
+  return storyId
+}
+
+function threadTitle(text: string): string {
+  const firstLine = text.split('\n').map((l) => l.trim()).find((l) => l.length > 0) ?? ''
+  return firstLine.length > THREAD_TITLE_LENGTH ? `${firstLine.slice(0, THREAD_TITLE_LENGTH - 1)}…` : firstLine
+}
+
+// Related coverage of one event over several days shares a story thread; copies of the same post
+// (one story) always share the thread of the first copy. Thread keywords stay those of the post that
+// opened it and threads stop accepting posts after THREAD_MAX_AGE_MS, so a thread can't drift into
+// a catch-all topic
+async function linkStoryThread(message: ClusteredMessage, storyId: number | null): Promise<void> {
+  if (message.storyThreadId !== null) return
+
+  let storyThreadId: number | null = null
+  if (storyId !== null) {
+    const sibling = await prisma.message.findFirst({
+      where: { storyId, storyThreadId: { not: null } },
+      select: { storyThreadId: true },
+    })
+    storyThreadId = sibling?.storyThreadId ?? null
+  }
+
+  const keywords = storyKeywords(message.text)
+
+  if (storyThreadId === null && keywords.length >= MIN_SHARED_KEYWORDS) {
+    const threads = await prisma.storyThread.findMany({
+      where: {
+        lastSeenAt: { gte: new Date(message.postedAt.getTime() - THREAD_WINDOW_MS) },
+        firstSeenAt: { gte: new Date(message.postedAt.getTime() - THREAD_MAX_AGE_MS) },
+        keywords: { hasSome: keywords },
+      },
+      select: { id: true, keywords: true },
+    })
+
+    let bestScore = 0
+    for (const thread of threads) {
+      const shared = keywords.filter((k) => thread.keywords.includes(k)).length
+      const jaccard = shared / new Set([...keywords, ...thread.keywords]).size
+      if (shared >= MIN_SHARED_KEYWORDS && jaccard >= MIN_KEYWORD_JACCARD && jaccard > bestScore) {
+        bestScore = jaccard
+        storyThreadId = thread.id
+      }
+    }
+  }
+
+  if (storyThreadId === null) {
+    const thread = await prisma.storyThread.create({
+      data: {
+        title: threadTitle(message.text),
+        keywords,
+        firstSeenAt: message.postedAt,
+        lastSeenAt: message.postedAt,
+      },
+    })
+    storyThreadId = thread.id
+  } else {
+    const thread = await prisma.storyThread.findUniqueOrThrow({ where: { id: storyThreadId } })
+    await prisma.storyThread.update({
+      where: { id: storyThreadId },
+      data: {
+        firstSeenAt: message.postedAt < thread.firstSeenAt ? message.postedAt : thread.firstSeenAt,
+        lastSeenAt: message.postedAt > thread.lastSeenAt ? message.postedAt : thread.lastSeenAt,
+      },
+    })
+    logger.info('Message linked to story thread', { messageId: message.id, storyThreadId })
+  }
+
+  await prisma.message.update({ where: { id: message.id }, data: { storyThreadId } })
+}
+
+// Only channel posts are clustered: group chatter is digested per thread instead
+export async function assignStory(messageId: number): Promise<void> {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: { channel: { select: { telegramChannelId: true, kind: true } } },
+  })
+  if (!message || message.isFiltered || message.deletedAt || message.channel.kind !== 'BROADCAST') return
+
+  const fingerprint: ClusteredMessage = {
+    ...message,
+    simhash: simhash(message.text),
+    urls: extractUrls(message.text),
+  }
+
+  await prisma.message.update({
+    where: { id: message.id },
+    data: { simhash: fingerprint.simhash, urls: fingerprint.urls },
+  })
+
+  const storyId = await joinDuplicateStory(fingerprint)
+  await linkStoryThread(fingerprint, storyId)
+}
@@ -1,13 +1,31 @@
-import { TelegramClient, sessions } from 'telegram'
+import { TelegramClient, sessions, errors } from 'telegram'
+import { ChannelKind } from '@prisma/client'
 import { Api } from 'telegram'
+import { returnBigInt } from 'telegram/Helpers'
 import { NewMessage, NewMessageEvent } from 'telegram/events'
+import { EditedMessage, EditedMessageEvent } from 'telegram/events/EditedMessage'
+import { DeletedMessage, DeletedMessageEvent } from 'telegram/events/DeletedMessage'
+import { Album, AlbumEvent } from 'telegram/events/Album'
+import { Raw } from 'telegram/events'
+import { UpdateConnectionState } from 'telegram/network'
 import { createLogger } from '../src/lib/logger'
-import { processPipelineMessage, RawMessage } from './MessagePipeline'
+import {
+  processPipelineMessage,
+  processEditedMessage,
+  markMessagesDeleted,
+  mergeAlbumParts,
+  groupAlbums,
+  MediaInfo,
+  RawMessage,
+} from './MessagePipeline'
 
 const logger = createLogger('TelegramUserbot')
 
 let client: TelegramClient | null = null
 let monitoredChannelIds = new Set<string>()
+const channelAccessHashes = new Map<string, string>()
+let reconnectHandler: (() => void) | null = null
+let connectionLost = false
 
 export async function initUserbot(): Promise<TelegramClient> {
   const sessionString = process.env.SESSION_STRING ?? ''
@@ -37,30 +55,184 @@ export async function initUserbot(): Promise<TelegramClient> {
   }
 
   client.addEventHandler(handleNewMessage, new NewMessage({}))
+  client.addEventHandler(handleAlbum, new Album({}))
+  client.addEventHandler(handleEditedMessage, new EditedMessage({}))
+  client.addEventHandler(handleDeletedMessage, new DeletedMessage({}))
+  client.addEventHandler(handleConnectionState, new Raw({ types: [UpdateConnectionState] }))
 
   return client
 }
 
-async function handleNewMessage(event: NewMessageEvent): Promise<void> {
-  const message = event.message
-  if (!message.text || message.text.trim().length === 0) return
+function extractMedia(message: Api.Message): MediaInfo | null {
+  const media = message.media
+  if (!media) return null
 
-  const peerId = message.peerId
-  if (!peerId) return
+  if (media instanceof Api.MessageMediaPhoto) {
+    const info: MediaInfo = { msgId: message.id, type: 'photo' }
+    if (media.photo instanceof Api.Photo) {
+      // Sizes are ordered from the smallest thumbnail to the full image
+      const largest = media.photo.sizes[media.photo.sizes.length - 1]
+      if (largest instanceof Api.PhotoSize) {
+        Object.assign(info, { width: largest.w, height: largest.h, size: largest.size })
+      } else if (largest instanceof Api.PhotoSizeProgressive) {
+        Object.assign(info, { width: largest.w, height: largest.h, size: Math.max(...largest.sizes) })
+      }
+    }
+    return info
+  }
 
-  const channelId = 'channelId' in peerId ? peerId.channelId?.toString() : null
-  if (!channelId) return
+  if (media instanceof Api.MessageMediaDocument) {
+    const info: MediaInfo = { msgId: message.id, type: 'document' }
+    const doc = media.document
+    if (!(doc instanceof Api.Document)) return info
 
-  if (!monitoredChannelIds.has(channelId)) return
+    info.mimeType = doc.mimeType
+    info.size = Number(doc.size.toString())
+
+    for (const attr of doc.attributes) {
+      if (attr instanceof Api.DocumentAttributeVideo) {
+        Object.assign(info, { type: attr.roundMessage ? 'round' : 'video', duration: attr.duration, width: attr.w, height: attr.h })
+      } else if (attr instanceof Api.DocumentAttributeAudio) {
+        Object.assign(info, { type: attr.voice ? 'voice' : 'audio', duration: attr.duration })
+      } else if (attr instanceof Api.DocumentAttributeImageSize) {
+        Object.assign(info, { width: attr.w, height: attr.h })
+      }
+    }
+
+    // GIFs arrive as silent videos with an extra "animated" attribute
+    if (doc.attributes.some((a) => a instanceof Api.DocumentAttributeAnimated)) info.type = 'animation'
+    if (doc.attributes.some((a) => a instanceof Api.DocumentAttributeSticker)) info.type = 'sticker'
+    return info
+  }
 
-  await processPipelineMessage({
-    channelTelegramId: BigInt('-100' + channelId),
+  if (media instanceof Api.MessageMediaPoll) return { msgId: message.id, type: 'poll' }
+
+  if (media instanceof Api.MessageMediaGeo || media instanceof Api.MessageMediaGeoLive || media instanceof Api.MessageMediaVenue) {
+    return { msgId: message.id, type: 'geo' }
+  }
+
+  // Link previews are generated by Telegram, not attached by the author
+  if (media instanceof Api.MessageMediaWebPage) return null
+
+  return { msgId: message.id, type: 'other' }
+}
+
+function getAuthorName(message: Api.Message): string | undefined {
+  const sender = message.sender
+  if (sender instanceof Api.User) {
+    const fullName = [sender.firstName, sender.lastName].filter(Boolean).join(' ')
+    return fullName || sender.username || undefined
+  }
+  if (sender instanceof Api.Channel && message.fromId) return sender.title
+  return message.postAuthor ?? undefined
+}
+
+function toRawMessage(channelTelegramId: bigint, message: Api.Message): RawMessage | null {
+  const text = message.text ?? ''
+  const media = extractMedia(message)
+  if (text.trim().length === 0 && !media) return null
+
+  const replyTo = message.replyTo instanceof Api.MessageReplyHeader ? message.replyTo : undefined
+  const forwardFrom = message.fwdFrom?.fromId instanceof Api.PeerChannel ? message.fwdFrom.fromId : undefined
+
+  return {
+    channelTelegramId,
     telegramMsgId: message.id,
-    text: message.text,
+    text,
     postedAt: new Date((message.date ?? 0) * 1000),
+    mediaType: media?.type,
+    media: media ? [media] : [],
+    groupedId: message.groupedId ? BigInt(message.groupedId.toString()) : undefined,
+    authorId: message.fromId instanceof Api.PeerUser ? BigInt(message.fromId.userId.toString()) : undefined,
+    authorName: getAuthorName(message),
+    replyToMsgId: replyTo?.replyToMsgId,
+    // In forums a reply to the topic root carries only replyToMsgId, which is then the topic id
+    threadId: replyTo?.forumTopic ? (replyTo.replyToTopId ?? replyTo.replyToMsgId) : replyTo?.replyToTopId,
+    forwardFromChannelId: forwardFrom ? BigInt('-100' + forwardFrom.channelId.toString()) : undefined,
+    forwardFromMsgId: forwardFrom ? message.fwdFrom?.channelPost : undefined,
+  }
+}
+
+function getMonitoredChannelId(message: Api.Message): string | null {
+  const peerId = message.peerId
+  if (!peerId) return null
+
+  const channelId = 'channelId' in peerId ? peerId.channelId?.toString() : null
+  if (!channelId) return null
+
+  return monitoredChannelIds.has(channelId) ? channelId : null
+}
+
+function toMonitoredRawMessage(message: Api.Message): RawMessage | null {
+  const channelId = getMonitoredChannelId(message)
+  if (!channelId) return null
+
+  return toRawMessage(BigInt('-100' + channelId), message)
+}
+
+async function handleNewMessage(event: NewMessageEvent): Promise<void> {
+  // Album parts are collected and processed together by handleAlbum
+  if (event.message.groupedId) return
+
+  const raw = toMonitoredRawMessage(event.message)
+  if (!raw) return
+
+  await processPipelineMessage(raw)
+}
+
+async function handleAlbum(event: AlbumEvent): Promise<void> {
+  // The Album builder also groups edit updates; those go through handleEditedMessage
+  if (event.originalUpdates.some((u) => u instanceof Api.UpdateEditChannelMessage)) return
+
+  const parts = event.messages
+    .map(toMonitoredRawMessage)
+    .filter((raw): raw is RawMessage => raw !== null)
+  if (parts.length === 0) return
+
+  await processPipelineMessage(mergeAlbumParts(parts))
+}
+
+async function handleEditedMessage(event: EditedMessageEvent): Promise<void> {
+  const raw = toMonitoredRawMessage(event.message)
+  if (!raw) return
+
+  // Editing a captionless album part must not wipe the album caption
+  if (raw.groupedId !== undefined && raw.text.trim().length === 0) return
+
+  const editDate = event.message.editDate
+  await processEditedMessage({
+    ...raw,
+    editedAt: editDate ? new Date(editDate * 1000) : new Date(),
   })
 }
 
+async function handleDeletedMessage(event: DeletedMessageEvent): Promise<void> {
+  // Only channel deletions carry the peer; private chat and basic group deletions are ambiguous
+  if (!(event.peer instanceof Api.PeerChannel)) return
+
+  const channelId = event.peer.channelId.toString()
+  if (!monitoredChannelIds.has(channelId)) return
+
+  await markMessagesDeleted(BigInt('-100' + channelId), event.deletedIds)
+}
+
+async function handleConnectionState(update: UpdateConnectionState): Promise<void> {
+  if (update.state !== UpdateConnectionState.connected) {
+    connectionLost = true
+    logger.warn('Userbot connection lost', { state: update.state })
+    return
+  }
+
+  if (!connectionLost) return
+  connectionLost = false
+  logger.info('Userbot reconnected')
+  reconnectHandler?.()
+}
+
+export function onUserbotReconnect(handler: () => void): void {
+  reconnectHandler = handler
+}
+
 export function addMonitoredChannel(channelId: string): void {
   monitoredChannelIds.add(channelId)
   logger.info('Added monitored channel', { channelId })
@@ -70,29 +242,179 @@ export function removeMonitoredChannel(channelId: string): void {
   monitoredChannelIds.delete(channelId)
 }
 
-export async function resolveChannel(usernameOrLink: string): Promise<{ id: bigint; title: string; username: string | null }> {
-  if (!client) throw new Error('Userbot not initialized')
+export type ChannelResolveStatus = 'joined' | 'pending_approval' | 'private' | 'not_a_channel' | 'not_found' | 'invalid_invite'
+
+export interface ForumTopicInfo {
+  id: number
+  title: string
+}
+
+export type ChannelResolveResult =
+  | { status: 'joined'; id: bigint; title: string; username: string | null; accessHash: bigint; kind: ChannelKind; topics: ForumTopicInfo[] }
+  | { status: Exclude<ChannelResolveStatus, 'joined'>; title?: string }
 
-  const username = usernameOrLink.replace(/^https?:\/\/t\.me\//, '').replace(/^@/, '')
+type ChannelIdentifier = { kind: 'invite'; hash: string } | { kind: 'username'; username: string }
 
-  const entity = await client.getEntity(username)
+const INVITE_LINK_REGEX = /^(?:https?:\/\/)?(?:t|telegram)\.me\/(?:\+|joinchat\/)([\w-]+)/i
+const TG_INVITE_REGEX = /^tg:\/\/join\?invite=([\w-]+)/i
 
-  if (!entity) throw new Error('Channel not found')
+function parseChannelIdentifier(input: string): ChannelIdentifier {
+  const trimmed = input.trim()
+  const invite = trimmed.match(INVITE_LINK_REGEX) ?? trimmed.match(TG_INVITE_REGEX)
+  if (invite) return { kind: 'invite', hash: invite[1] }
 
-  const id = 'id' in entity ? BigInt('-100' + entity.id.toString()) : BigInt(0)
-  const title = 'title' in entity ? (entity.title as string) : ('firstName' in entity ? (entity.firstName as string) : 'Unknown')
-  const entityUsername = 'username' in entity ? (entity.username as string | null) : null
+  const username = trimmed
+    .replace(/^(?:https?:\/\/)?(?:t|telegram)\.me\/(?:s\/)?/i, '')
+    .replace(/^@/, '')
+    .split(/[/?#]/)[0]
+  return { kind: 'username', username }
+}
+
+function rpcErrorCode(error: unknown): string {
+  return error instanceof errors.RPCError ? error.errorMessage : ''
+}
+
+function joinedChannel(channel: Api.Channel): ChannelResolveResult {
+  return {
+    status: 'joined',
+    id: BigInt('-100' + channel.id.toString()),
+    title: channel.title,
+    username: channel.username ?? null,
+    accessHash: BigInt(channel.accessHash?.toString() ?? '0'),
+    kind: channel.forum ? 'FORUM' : channel.megagroup ? 'MEGAGROUP' : 'BROADCAST',
+    topics: [],
+  }
+}
 
-  addMonitoredChannel(entity.id.toString())
+async function fetchForumTopics(client: TelegramClient, channelTelegramId: bigint): Promise<ForumTopicInfo[]> {
+  const entity = await getChannelEntity(client, channelTelegramId)
+  const result = await client.invoke(new Api.channels.GetForumTopics({
+    channel: entity,
+    offsetDate: 0,
+    offsetId: 0,
+    offsetTopic: 0,
+    limit: 100,
+  }))
+
+  return result.topics
+    .filter((t): t is Api.ForumTopic => t instanceof Api.ForumTopic)
+    .map((t) => ({ id: t.id, title: t.title }))
+}
 
-  return { id, title, username: entityUsername }
+function chatToResult(chat: Api.TypeChat | undefined): ChannelResolveResult {
+  if (chat instanceof Api.Channel) return joinedChannel(chat)
+  if (chat instanceof Api.ChannelForbidden) return { status: 'private', title: chat.title }
+  return { status: 'not_a_channel' }
 }
 
-export async function loadMonitoredChannels(channelIds: string[]): Promise<void> {
-  for (const id of channelIds) {
-    monitoredChannelIds.add(id)
+async function joinByInvite(client: TelegramClient, hash: string): Promise<ChannelResolveResult> {
+  let invite: Api.TypeChatInvite
+  try {
+    invite = await client.invoke(new Api.messages.CheckChatInvite({ hash }))
+  } catch (error) {
+    if (['INVITE_HASH_EXPIRED', 'INVITE_HASH_INVALID', 'INVITE_HASH_EMPTY'].includes(rpcErrorCode(error))) {
+      return { status: 'invalid_invite' }
+    }
+    throw error
+  }
+
+  if (invite instanceof Api.ChatInviteAlready || invite instanceof Api.ChatInvitePeek) {
+    return chatToResult(invite.chat)
+  }
+
+  if (!invite.channel) return { status: 'not_a_channel', title: invite.title }
+
+  try {
+    const updates = await client.invoke(new Api.messages.ImportChatInvite({ hash }))
+    const chat = 'chats' in updates ? updates.chats.find((c) => c instanceof Api.Channel) : undefined
+    logger.info('Joined channel via invite link', { title: invite.title })
+    return chatToResult(chat)
+  } catch (error) {
+    const code = rpcErrorCode(error)
+    if (code === 'INVITE_REQUEST_SENT') return { status: 'pending_approval', title: invite.title }
+    if (code === 'INVITE_HASH_EXPIRED') return { status: 'invalid_invite', title: invite.title }
+    if (code === 'CHANNEL_PRIVATE') return { status: 'private', title: invite.title }
+    throw error
   }
-  logger.info('Loaded monitored channels', { count: channelIds.length })
+}
+
+async function joinByUsername(client: TelegramClient, username: string): Promise<ChannelResolveResult> {
+  let resolved: Api.contacts.ResolvedPeer
+  try {
+    resolved = await client.invoke(new Api.contacts.ResolveUsername({ username }))
+  } catch (error) {
+    if (['USERNAME_NOT_OCCUPIED', 'USERNAME_INVALID'].includes(rpcErrorCode(error))) {
+      return { status: 'not_found' }
+    }
+    throw error
+  }
+
+  if (!(resolved.peer instanceof Api.PeerChannel)) return { status: 'not_a_channel' }
+
+  const chat = resolved.chats.find((c) => c instanceof Api.Channel || c instanceof Api.ChannelForbidden)
+  if (!(chat instanceof Api.Channel)) return chatToResult(chat)
+
+  if (chat.left) {
+    try {
+      await client.invoke(new Api.channels.JoinChannel({
+        channel: new Api.InputChannel({ channelId: chat.id, accessHash: chat.accessHash ?? returnBigInt(0) }),
+      }))
+      logger.info('Joined public channel', { username, title: chat.title })
+    } catch (error) {
+      const code = rpcErrorCode(error)
+      if (code === 'INVITE_REQUEST_SENT') return { status: 'pending_approval', title: chat.title }
+      if (code === 'CHANNEL_PRIVATE') return { status: 'private', title: chat.title }
+      throw error
+    }
+  }
+
+  return joinedChannel(chat)
+}
+
+// Resolves a username, public link or invite link and makes sure the userbot is subscribed
+export async function resolveChannel(identifier: string): Promise<ChannelResolveResult> {
+  if (!client) throw new Error('Userbot not initialized')
+
+  const parsed = parseChannelIdentifier(identifier)
+  const result = parsed.kind === 'invite'
+    ? await joinByInvite(client, parsed.hash)
+    : await joinByUsername(client, parsed.username)
+
+  if (result.status === 'joined') {
+    const rawId = result.id.toString().replace(/^-100/, '')
+    channelAccessHashes.set(rawId, result.accessHash.toString())
+    addMonitoredChannel(rawId)
+
+    if (result.kind === 'FORUM') {
+      try {
+        result.topics = await fetchForumTopics(client, result.id)
+      } catch (error) {
+        logger.warn('Failed to fetch forum topics', { identifier, error: (error as Error).message })
+      }
+    }
+  } else {
+    logger.warn('Channel could not be joined', { identifier, status: result.status })
+  }
+
+  return result
+}
+
+export async function loadMonitoredChannels(channels: { id: string; accessHash: bigint | null }[]): Promise<void> {
+  for (const channel of channels) {
+    monitoredChannelIds.add(channel.id)
+    if (channel.accessHash !== null) channelAccessHashes.set(channel.id, channel.accessHash.toString())
+  }
+  logger.info('Loaded monitored channels', { count: channels.length })
+}
+
+// Stored access hashes let us address channels without relying on the getDialogs entity cache
+async function getChannelEntity(client: TelegramClient, channelTelegramId: bigint) {
+  const rawId = channelTelegramId.toString().replace(/^-100/, '')
+  const accessHash = channelAccessHashes.get(rawId)
+  if (accessHash) {
+    return client.getEntity(new Api.InputPeerChannel({ channelId: returnBigInt(rawId), accessHash: returnBigInt(accessHash) }))
+  }
+  return client.getEntity(new Api.PeerChannel({ channelId: returnBigInt(rawId) }))
 }
 
 export async function fetchChannelHistory(
@@ -102,24 +424,18 @@ export async function fetchChannelHistory(
 ): Promise<RawMessage[]> {
   if (!client) throw new Error('Userbot not initialized')
 
-  const rawId = channelTelegramId.toString().replace(/^-100/, '')
-  const entity = await client.getEntity(new Api.PeerChannel({ channelId: BigInt(rawId) }))
+  const entity = await getChannelEntity(client, channelTelegramId)
 
   const messages = await client.getMessages(entity, { limit })
 
-  const result: RawMessage[] = []
+  const parts: RawMessage[] = []
   for (const msg of messages) {
     if (!(msg instanceof Api.Message)) continue
-    if (!msg.message || msg.message.trim().length === 0) continue
-    const postedAt = new Date(msg.date * 1000)
-    if (postedAt < sinceDate) continue
-    result.push({
-      channelTelegramId,
-      telegramMsgId: msg.id,
-      text: msg.message,
-      postedAt,
-    })
+    const raw = toRawMessage(channelTelegramId, msg)
+    if (!raw || raw.postedAt < sinceDate) continue
+    parts.push(raw)
   }
+  const result = groupAlbums(parts)
 
   logger.info('Fetched channel history', {
     channelTelegramId: channelTelegramId.toString(),
@@ -128,3 +444,37 @@ export async function fetchChannelHistory(
   })
   return result
 }
+
+// Pages forward from the read cursor until the newest message, with no fixed limit
+export async function fetchChannelHistorySince(channelTelegramId: bigint, afterMsgId: number): Promise<RawMessage[]> {
+  if (!client) throw new Error('Userbot not initialized')
+
+  const entity = await getChannelEntity(client, channelTelegramId)
+
+  const parts: RawMessage[] = []
+  let total = 0
+  for await (const msg of client.iterMessages(entity, { minId: afterMsgId, reverse: true })) {
+    total++
+    if (!(msg instanceof Api.Message)) continue
+    const raw = toRawMessage(channelTelegramId, msg)
+    if (raw) parts.push(raw)
+  }
+  const result = groupAlbums(parts)
+
+  logger.info('Fetched channel history since cursor', {
+    channelTelegramId: channelTelegramId.toString(),
+    afterMsgId,
+    total,
+    messages: result.length,
+  })
+  return result
+}
+
+export async function getLatestMessageId(channelTelegramId: bigint): Promise<number | null> {
+  if (!client) throw new Error('Userbot not initialized')
+
+  const entity = await getChannelEntity(client, channelTelegramId)
+
+  const [latest] = await client.getMessages(entity, { limit: 1 })
+  return latest?.id ?? null
+}
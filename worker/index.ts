@@ -1,26 +1,27 @@
 import http from 'http'
 import { PrismaClient } from '@prisma/client'
-import { initUserbot, resolveChannel, loadMonitoredChannels, fetchChannelHistory } from './TelegramUserbot'
+import { initUserbot, resolveChannel, loadMonitoredChannels, fetchChannelHistory, onUserbotReconnect } from './TelegramUserbot'
 import { processPipelineMessage } from './MessagePipeline'
 import { startDigestCron } from './DigestCron'
+import { recoverMissedMessages, getGapRecoveryStats } from './GapRecovery'
+import { startScoringQueue, waitForScoring, getScoringQueueStats, getScoreQualityStats } from './ScoringQueue'
 import { createLogger } from '../src/lib/logger'
 
 const logger = createLogger('Worker')
 const prisma = new PrismaClient()
 const INTERNAL_SECRET = process.env.INTERNAL_SECRET ?? ''
 const PORT = parseInt(process.env.WORKER_PORT ?? '3001', 10)
+const BACKFILL_SCORING_WAIT_MS = 90_000
 
 async function loadAllChannels(): Promise<void> {
   const channels = await prisma.channel.findMany({
-    select: { telegramChannelId: true },
+    select: { telegramChannelId: true, accessHash: true },
   })
 
-  const ids = channels.map((c) => {
+  await loadMonitoredChannels(channels.map((c) => {
     const raw = c.telegramChannelId.toString()
-    return raw.startsWith('-100') ? raw.slice(4) : raw
-  })
-
-  await loadMonitoredChannels(ids)
+    return { id: raw.startsWith('-100') ? raw.slice(4) : raw, accessHash: c.accessHash }
+  }))
 }
 
 function createHttpServer(): http.Server {
@@ -39,7 +40,11 @@ function createHttpServer(): http.Server {
           const { identifier } = JSON.parse(body) as { identifier: string }
           const result = await resolveChannel(identifier)
           res.writeHead(200, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ id: result.id.toString(), title: result.title, username: result.username }))
+          res.end(JSON.stringify(
+            result.status === 'joined'
+              ? { ...result, id: result.id.toString(), accessHash: result.accessHash.toString() }
+              : result,
+          ))
         } catch (error) {
           logger.error('resolve-channel failed', { error })
           res.writeHead(500, { 'Content-Type': 'application/json' })
@@ -105,10 +110,20 @@ function createHttpServer(): http.Server {
             })
           }
 
+          // Scoring happens in the queue; give it time so the digest that follows sees the scores
+          const stored = await prisma.message.findMany({
+            where: {
+              channelId: { in: channelRows.map((c) => c.id) },
+              telegramMsgId: { in: toScore.map((m) => m.telegramMsgId) },
+            },
+            select: { id: true },
+          })
+          const pendingScoring = await waitForScoring(stored.map((m) => m.id), BACKFILL_SCORING_WAIT_MS)
+
           const skipped = allMessages.length - toScore.length
-          logger.info('Backfill completed', { total: allMessages.length, processed, skipped, errors })
+          logger.info('Backfill completed', { total: allMessages.length, processed, skipped, errors, pendingScoring })
           res.writeHead(200, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ processed, skipped, errors }))
+          res.end(JSON.stringify({ processed, skipped, errors, pendingScoring }))
         } catch (error) {
           logger.error('backfill failed', { error })
           res.writeHead(500, { 'Content-Type': 'application/json' })
@@ -118,6 +133,23 @@ function createHttpServer(): http.Server {
       return
     }
 
+    if (req.method === 'GET' && req.url === '/internal/stats') {
+      try {
+        const stats = {
+          gapRecovery: getGapRecoveryStats(),
+          scoring: await getScoringQueueStats(),
+          scoreQuality: await getScoreQualityStats(),
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(stats))
+      } catch (error) {
+        logger.error('stats failed', { error })
+        res.writeHead(500, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ error: (error as Error).message }))
+      }
+      return
+    }
+
     res.writeHead(404)
     res.end('Not found')
   })
@@ -139,10 +171,21 @@ async function main(): Promise<void> {
   await prisma.$connect()
   logger.info('Database connected')
 
+  startScoringQueue()
+
   await loadAllChannels()
 
   await initUserbot()
 
+  onUserbotReconnect(() => {
+    recoverMissedMessages('reconnect').catch((error) => {
+      logger.error('Gap recovery after reconnect failed', { error })
+    })
+  })
+  recoverMissedMessages('startup').catch((error) => {
+    logger.error('Gap recovery on startup failed', { error })
+  })
+
   startDigestCron()
 
   const server = createHttpServer()